@@ -0,0 +1,47 @@
+import type { Handle, ServerInit } from '@sveltejs/kit';
+import { SESSION_COOKIE, clearSessionCookie, getSessionSecret, verifySessionToken } from '$lib/server/auth';
+import { getSessionVersion, getUserById } from '$lib/server/db';
+import { initializeDatabase } from '$lib/server/database';
+import { subscribeNotifications } from '$lib/server/notifications';
+import { subscribeLiveUpdates } from '$lib/server/live';
+import { applyRateLimit } from '$lib/server/rate-limit';
+import { scheduleReconciliation } from '$lib/server/reconcile';
+import { scheduleTrashPurge } from '$lib/server/retention';
+
+export const init: ServerInit = async () => {
+  // Refuse to start with a missing or example secret rather than accept forged sessions
+  getSessionSecret();
+
+  // Migrations, the JSON import and the ID upgrade finish before any request is served
+  await initializeDatabase();
+
+  subscribeNotifications();
+  subscribeLiveUpdates();
+  scheduleReconciliation();
+  scheduleTrashPurge();
+};
+
+export const handle: Handle = async ({ event, resolve }) => {
+  event.locals.user = null;
+
+  const token = event.cookies.get(SESSION_COOKIE);
+  if (token) {
+    const session = verifySessionToken(token);
+    const current = session && (await getSessionVersion(session.userId)) === session.sessionVersion;
+    const user = current ? await getUserById(session.userId) : undefined;
+
+    // Signing out revokes the session, and a ban ends existing sessions too
+    if (user && !user.bannedAt) {
+      event.locals.user = user;
+    } else {
+      clearSessionCookie(event.cookies);
+    }
+  }
+
+  const limited = await applyRateLimit(event);
+  if (limited) {
+    return limited;
+  }
+
+  return resolve(event);
+};
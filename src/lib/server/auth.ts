@@ -0,0 +1,137 @@
+/**
+ * Authentication Utility
+ * Password hashing and signed session cookies
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { env } from '$env/dynamic/private';
+import type { Cookies } from '@sveltejs/kit';
+import type { User } from '$lib/types';
+
+const scryptAsync = promisify(scrypt) as (
+	password: string,
+	salt: Buffer,
+	keylen: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'session';
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, in seconds
+const KEY_LENGTH = 64;
+
+// The value .env.example once shipped with
+const PLACEHOLDER_SECRET = 'change-me-to-a-long-random-string';
+
+/**
+ * Thrown at startup when SESSION_SECRET is missing or still the example value,
+ * since anyone could then sign a session cookie
+ */
+export class SessionSecretError extends Error {
+	constructor() {
+		super('SESSION_SECRET must be set to a long random string');
+		this.name = 'SessionSecretError';
+	}
+}
+
+/**
+ * The secret session cookies are signed with; throws SessionSecretError if it isn't set
+ */
+export function getSessionSecret(): string {
+	const secret = env.SESSION_SECRET?.trim();
+	if (!secret || secret === PLACEHOLDER_SECRET) {
+		throw new SessionSecretError();
+	}
+	return secret;
+}
+
+/**
+ * Hash a password with a random salt (format: scrypt$salt$hash)
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16);
+	const hash = await scryptAsync(password, salt, KEY_LENGTH);
+	return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+	const [algorithm, salt, hash] = storedHash.split('$');
+	if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+	const expected = Buffer.from(hash, 'base64');
+	const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+	return timingSafeEqual(expected, actual);
+}
+
+function sign(value: string): string {
+	return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Create a signed session token (format: userId.sessionVersion.expiresAt.signature).
+ * Bumping the user's session version (see endSessions in db.ts) revokes it.
+ */
+export function createSessionToken(userId: string, sessionVersion: number): string {
+	const expiresAt = Math.floor(Date.now() / 1000) + SESSION_MAX_AGE;
+	const payload = `${encodeURIComponent(userId)}.${sessionVersion}.${expiresAt}`;
+	return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Validate a session token and return who it was issued for. The caller still has
+ * to check the session version against the user's current one.
+ */
+export function verifySessionToken(token: string): { userId: string; sessionVersion: number } | null {
+	const parts = token.split('.');
+	if (parts.length !== 4) return null;
+
+	const [encodedUserId, sessionVersion, expiresAt, signature] = parts;
+	const payload = `${encodedUserId}.${sessionVersion}.${expiresAt}`;
+
+	const expected = Buffer.from(sign(payload));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return null;
+	}
+
+	if (Number(expiresAt) * 1000 < Date.now()) {
+		return null;
+	}
+
+	return { userId: decodeURIComponent(encodedUserId), sessionVersion: Number(sessionVersion) };
+}
+
+/**
+ * Start a session for a user
+ */
+export function setSessionCookie(cookies: Cookies, userId: string, sessionVersion: number): void {
+	cookies.set(SESSION_COOKIE, createSessionToken(userId, sessionVersion), {
+		path: '/',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: SESSION_MAX_AGE
+	});
+}
+
+/**
+ * Remove the session cookie from this browser
+ */
+export function clearSessionCookie(cookies: Cookies): void {
+	cookies.delete(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Whether a user may run maintenance tasks and assign roles
+ */
+export function isAdmin(user: User | null): boolean {
+	return user?.role === 'admin';
+}
+
+/**
+ * Whether a user may act on reported content and ban members
+ */
+export function isModerator(user: User | null): boolean {
+	return user?.role === 'moderator' || user?.role === 'admin';
+}
@@ -3,11 +3,36 @@
  * Handles photo and comment storage in Azure Blob Storage
  */
 
-import { AZURE_PHOTO_STORAGE_URL, AZURE_COMMENT_STORAGE_URL } from '$env/static/private';
+import { env } from '$env/dynamic/private';
+import type { Readable } from 'node:stream';
+import {
+	BlobNotFoundError,
+	PreconditionFailedError,
+	getContentTypeFromBlobName,
+	type BlobContent,
+	type StorageBackend,
+	type StorageContainer,
+	type VersionedBlob,
+	type WriteConditions
+} from './storage';
 
 export interface BlobUploadResult {
-	url: string;
 	blobName: string;
+	etag: string;
+}
+
+/**
+ * Get the container URL (with SAS token) for a container
+ */
+function getContainerUrl(container: StorageContainer): string {
+	const containerUrl =
+		container === 'photo' ? env.AZURE_PHOTO_STORAGE_URL : env.AZURE_COMMENT_STORAGE_URL;
+
+	if (!containerUrl) {
+		throw new Error(`Azure storage URL for "${container}" container is not configured`);
+	}
+
+	return containerUrl;
 }
 
 /**
@@ -16,88 +41,161 @@ export interface BlobUploadResult {
 export async function uploadBlob(
 	containerUrl: string,
 	blobName: string,
-	content: string | ArrayBuffer,
-	contentType: string = 'application/json'
+	content: BlobContent,
+	contentType: string = 'application/json',
+	conditions: WriteConditions = {}
 ): Promise<BlobUploadResult> {
 	const blobUrl = `${containerUrl.split('?')[0]}/${blobName}?${containerUrl.split('?')[1]}`;
 
-	const body = typeof content === 'string' ? content : content;
+	const headers: Record<string, string> = {
+		'x-ms-blob-type': 'BlockBlob',
+		'Content-Type': contentType
+	};
+	if (conditions.ifMatch) headers['If-Match'] = conditions.ifMatch;
+	if (conditions.ifNoneMatch) headers['If-None-Match'] = conditions.ifNoneMatch;
 
 	const response = await fetch(blobUrl, {
 		method: 'PUT',
-		headers: {
-			'x-ms-blob-type': 'BlockBlob',
-			'Content-Type': contentType
-		},
-		body
+		headers,
+		body: content
 	});
 
+	// 412 for a failed If-Match, 409 (BlobAlreadyExists) for a failed If-None-Match: *
+	if (response.status === 412 || (response.status === 409 && conditions.ifNoneMatch)) {
+		throw new PreconditionFailedError(blobName);
+	}
+
 	if (!response.ok) {
 		const errorText = await response.text();
 		throw new Error(`Failed to upload blob: ${response.status} - ${errorText}`);
 	}
 
-	// Return the full URL with SAS token for authenticated access
 	return {
-		url: blobUrl,
-		blobName
+		blobName,
+		etag: response.headers.get('ETag') || ''
 	};
 }
 
-/**
- * Get blob URL with SAS token for a photo
- */
-export function getPhotoBlobUrl(blobName: string): string {
-	const baseUrl = AZURE_PHOTO_STORAGE_URL.split('?')[0];
-	const sasToken = AZURE_PHOTO_STORAGE_URL.split('?')[1];
-	return `${baseUrl}/${blobName}?${sasToken}`;
-}
+// Azure allows up to 4000 MiB per block; 4 MiB keeps memory per upload small
+const BLOCK_SIZE = 4 * 1024 * 1024;
 
 /**
- * Upload a photo to Azure Blob Storage
+ * Upload a blob from a stream. Small blobs use a single Put Blob; larger ones are sent
+ * as Put Block requests of BLOCK_SIZE and committed with Put Block List.
  */
-export async function uploadPhoto(
-	photoId: string,
-	imageData: ArrayBuffer,
+export async function uploadBlobStream(
+	containerUrl: string,
+	blobName: string,
+	stream: Readable,
 	contentType: string
-): Promise<string> {
-	const blobName = `photo-${photoId}.${getExtensionFromContentType(contentType)}`;
-	const result = await uploadBlob(AZURE_PHOTO_STORAGE_URL, blobName, imageData, contentType);
-	// Return the full URL with SAS token
-	return getPhotoBlobUrl(blobName);
+): Promise<number> {
+	const blobUrl = `${containerUrl.split('?')[0]}/${blobName}?${containerUrl.split('?')[1]}`;
+	const blockIds: string[] = [];
+	let pending: Buffer[] = [];
+	let pendingLength = 0;
+	let total = 0;
+
+	async function stageBlock(data: Buffer) {
+		// Block IDs must be base64 and all the same length within a blob
+		const blockId = Buffer.from(String(blockIds.length).padStart(6, '0')).toString('base64');
+		const response = await fetch(`${blobUrl}&comp=block&blockid=${encodeURIComponent(blockId)}`, {
+			method: 'PUT',
+			body: new Uint8Array(data)
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Failed to upload block: ${response.status} - ${errorText}`);
+		}
+
+		blockIds.push(blockId);
+	}
+
+	for await (const chunk of stream as AsyncIterable<Buffer>) {
+		pending.push(chunk);
+		pendingLength += chunk.length;
+		total += chunk.length;
+
+		while (pendingLength >= BLOCK_SIZE) {
+			const buffered = Buffer.concat(pending);
+			await stageBlock(buffered.subarray(0, BLOCK_SIZE));
+			pending = [buffered.subarray(BLOCK_SIZE)];
+			pendingLength = pending[0].length;
+		}
+	}
+
+	const remainder = Buffer.concat(pending);
+
+	if (blockIds.length === 0) {
+		await uploadBlob(containerUrl, blobName, new Uint8Array(remainder), contentType);
+		return total;
+	}
+
+	if (remainder.length > 0) {
+		await stageBlock(remainder);
+	}
+
+	const blockList =
+		'<?xml version="1.0" encoding="utf-8"?><BlockList>' +
+		blockIds.map((id) => `<Latest>${id}</Latest>`).join('') +
+		'</BlockList>';
+
+	const response = await fetch(`${blobUrl}&comp=blocklist`, {
+		method: 'PUT',
+		headers: {
+			'Content-Type': 'application/xml',
+			'x-ms-blob-content-type': contentType
+		},
+		body: blockList
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Failed to commit block list: ${response.status} - ${errorText}`);
+	}
+
+	return total;
 }
 
 /**
- * List all blobs in a container
+ * List all blobs in a container, following NextMarker through every page of results
+ * (Azure returns at most 5000 per request)
  */
 export async function listBlobs(containerUrl: string): Promise<string[]> {
 	const baseUrl = containerUrl.split('?')[0];
 	const sasToken = containerUrl.split('?')[1];
-	const listUrl = `${baseUrl}?${sasToken}&restype=container&comp=list`;
+	const blobNames: string[] = [];
+	let marker = '';
 
-	const response = await fetch(listUrl);
+	do {
+		const listUrl =
+			`${baseUrl}?${sasToken}&restype=container&comp=list` +
+			(marker ? `&marker=${encodeURIComponent(marker)}` : '');
 
-	if (!response.ok) {
-		throw new Error(`Failed to list blobs: ${response.status}`);
-	}
+		const response = await fetch(listUrl);
 
-	const xmlText = await response.text();
+		if (!response.ok) {
+			throw new Error(`Failed to list blobs: ${response.status}`);
+		}
 
-	// Parse XML to get blob names
-	const blobNames: string[] = [];
-	const nameMatches = xmlText.matchAll(/<Name>([^<]+)<\/Name>/g);
+		const xmlText = await response.text();
 
-	for (const match of nameMatches) {
-		blobNames.push(match[1]);
-	}
+		// Parse XML to get blob names
+		for (const match of xmlText.matchAll(/<Name>([^<]+)<\/Name>/g)) {
+			blobNames.push(match[1]);
+		}
+
+		// Empty (<NextMarker />) on the last page
+		marker = xmlText.match(/<NextMarker>([^<]+)<\/NextMarker>/)?.[1] ?? '';
+	} while (marker);
 
 	return blobNames;
 }
 
 /**
- * Get blob content
+ * Fetch a blob, throwing BlobNotFoundError on 404
  */
-export async function getBlob(containerUrl: string, blobName: string): Promise<string> {
+async function fetchBlob(containerUrl: string, blobName: string): Promise<Response> {
 	const baseUrl = containerUrl.split('?')[0];
 	const sasToken = containerUrl.split('?')[1];
 	const blobUrl = `${baseUrl}/${blobName}?${sasToken}`;
@@ -106,14 +204,41 @@ export async function getBlob(containerUrl: string, blobName: string): Promise<s
 
 	if (!response.ok) {
 		if (response.status === 404) {
-			throw new Error('Blob not found');
+			throw new BlobNotFoundError(blobName);
 		}
 		throw new Error(`Failed to get blob: ${response.status}`);
 	}
 
+	return response;
+}
+
+/**
+ * Get blob content
+ */
+export async function getBlob(containerUrl: string, blobName: string): Promise<string> {
+	const response = await fetchBlob(containerUrl, blobName);
 	return await response.text();
 }
 
+/**
+ * Get blob content with its ETag, or null if the blob doesn't exist
+ */
+export async function getBlobVersioned(
+	containerUrl: string,
+	blobName: string
+): Promise<VersionedBlob | null> {
+	try {
+		const response = await fetchBlob(containerUrl, blobName);
+		return {
+			content: await response.text(),
+			etag: response.headers.get('ETag') || ''
+		};
+	} catch (error) {
+		if (error instanceof BlobNotFoundError) return null;
+		throw error;
+	}
+}
+
 /**
  * Delete a blob
  */
@@ -132,77 +257,48 @@ export async function deleteBlob(containerUrl: string, blobName: string): Promis
 }
 
 /**
- * Save photos index (list of all photos)
- */
-export async function savePhotosIndex(photos: any[]): Promise<void> {
-	const content = JSON.stringify(photos, null, 2);
-	await uploadBlob(AZURE_PHOTO_STORAGE_URL, 'photos-index.json', content, 'application/json');
-}
-
-/**
- * Get photos index
+ * Azure implementation of the storage backend
  */
-export async function getPhotosIndex(): Promise<any[]> {
-	try {
-		const content = await getBlob(AZURE_PHOTO_STORAGE_URL, 'photos-index.json');
-		return JSON.parse(content);
-	} catch (error) {
-		// If index doesn't exist, return empty array
-		return [];
+export const azureStorage: StorageBackend = {
+	async putBlob(container, blobName, content, contentType, conditions) {
+		const result = await uploadBlob(
+			getContainerUrl(container),
+			blobName,
+			content,
+			contentType ?? getContentTypeFromBlobName(blobName),
+			conditions
+		);
+		return result.etag;
+	},
+
+	putBlobStream(container, blobName, stream, contentType) {
+		return uploadBlobStream(getContainerUrl(container), blobName, stream, contentType);
+	},
+
+	getBlob(container, blobName) {
+		return getBlob(getContainerUrl(container), blobName);
+	},
+
+	getBlobVersioned(container, blobName) {
+		return getBlobVersioned(getContainerUrl(container), blobName);
+	},
+
+	async getBlobStream(container, blobName) {
+		const response = await fetchBlob(getContainerUrl(container), blobName);
+		const length = response.headers.get('Content-Length');
+		return {
+			stream: response.body!,
+			contentType:
+				response.headers.get('Content-Type') || getContentTypeFromBlobName(blobName),
+			size: length ? Number(length) : undefined
+		};
+	},
+
+	deleteBlob(container, blobName) {
+		return deleteBlob(getContainerUrl(container), blobName);
+	},
+
+	listBlobs(container) {
+		return listBlobs(getContainerUrl(container));
 	}
-}
-
-/**
- * Save comments index (list of all comments)
- */
-export async function saveCommentsIndex(comments: any[]): Promise<void> {
-	const content = JSON.stringify(comments, null, 2);
-	await uploadBlob(AZURE_COMMENT_STORAGE_URL, 'comments-index.json', content, 'application/json');
-}
-
-/**
- * Get comments index
- */
-export async function getCommentsIndex(): Promise<any[]> {
-	try {
-		const content = await getBlob(AZURE_COMMENT_STORAGE_URL, 'comments-index.json');
-		return JSON.parse(content);
-	} catch (error) {
-		// If index doesn't exist, return empty array
-		return [];
-	}
-}
-
-/**
- * Get file extension from content type
- */
-function getExtensionFromContentType(contentType: string): string {
-	const map: Record<string, string> = {
-		'image/jpeg': 'jpg',
-		'image/jpg': 'jpg',
-		'image/png': 'png',
-		'image/gif': 'gif',
-		'image/webp': 'webp'
-	};
-	return map[contentType] || 'jpg';
-}
-
-/**
- * Convert data URL to ArrayBuffer
- */
-export function dataUrlToArrayBuffer(dataUrl: string): { buffer: ArrayBuffer; contentType: string } {
-	const parts = dataUrl.split(',');
-	const contentType = parts[0].match(/:(.*?);/)?.[1] || 'image/jpeg';
-	const base64 = parts[1];
-
-	// Use Node.js Buffer instead of browser atob
-	const nodeBuffer = Buffer.from(base64, 'base64');
-
-	// Convert Node.js Buffer to ArrayBuffer
-	const buffer = nodeBuffer.buffer.slice(
-		nodeBuffer.byteOffset,
-		nodeBuffer.byteOffset + nodeBuffer.byteLength
-	);
-
-	return { buffer, contentType };
-}
+};
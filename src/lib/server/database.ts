@@ -0,0 +1,120 @@
+/**
+ * Database
+ * The embedded SQLite database holding users, photos and comments, at DATABASE_PATH
+ * (default .data/app.db). Opening it applies any pending migrations; a new database
+ * is then filled from the JSON indexes earlier versions kept in storage, and any
+ * numeric photo and comment IDs are replaced (see legacy-ids.ts).
+ *
+ * The file must be on a local disk: WAL mode doesn't work on network file systems.
+ * Being on one instance's disk, it limits the app to a single instance, which
+ * storage-owner.ts enforces.
+ */
+
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { env } from '$env/dynamic/private';
+import { migrate } from './migrations';
+import { importJsonIndexes } from './json-import';
+import { upgradeLegacyIds } from './legacy-ids';
+import { claimStorage } from './storage-owner';
+
+// Set in app_meta once the JSON indexes have been copied in
+const JSON_IMPORT_KEY = 'json-import';
+// IDs from ADMIN_USER_IDS already dealt with, as a JSON array
+const ADMIN_GRANTS_KEY = 'admin-user-ids';
+
+let database: Database.Database | null = null;
+let imported: Promise<void> | null = null;
+
+/**
+ * The open database, opening and migrating it on first use. Reads and writes are
+ * synchronous; db.ts waits for initializeDatabase before its first query.
+ */
+export function getDatabase(): Database.Database {
+	if (database) return database;
+
+	const file = env.DATABASE_PATH || path.join('.data', 'app.db');
+	mkdirSync(path.dirname(file), { recursive: true });
+
+	const db = new Database(file);
+	db.pragma('journal_mode = WAL');
+	db.pragma('foreign_keys = ON');
+
+	const applied = migrate(db);
+	if (applied.length > 0) {
+		console.log(`Applied database migrations: ${applied.join(', ')}`);
+	}
+
+	database = db;
+	return db;
+}
+
+/**
+ * Open the database, claim storage for it (see storage-owner.ts) and, the first time,
+ * import the JSON indexes into it and replace numeric IDs. Then make the users newly
+ * listed in ADMIN_USER_IDS admins. A failed import is rolled back and tried again on
+ * the next call.
+ */
+export function initializeDatabase(): Promise<void> {
+	const db = getDatabase();
+	imported ??= claimStorage(db)
+		.then(() => importOnce(db))
+		.then(() => upgradeLegacyIds(db))
+		.then(() => grantConfiguredAdmins(db))
+		.catch((error) => {
+			imported = null;
+			throw error;
+		});
+	return imported;
+}
+
+async function importOnce(db: Database.Database): Promise<void> {
+	const getMeta = db.prepare('SELECT value FROM app_meta WHERE key = ?').pluck();
+	if (getMeta.get(JSON_IMPORT_KEY)) return;
+
+	const report = await importJsonIndexes(db);
+	db.prepare('INSERT INTO app_meta (key, value) VALUES (?, ?)').run(
+		JSON_IMPORT_KEY,
+		JSON.stringify({ ...report, importedAt: new Date().toISOString() })
+	);
+	console.log(
+		`Imported ${report.users} users, ${report.photos} photos and ${report.comments} comments from the JSON indexes`
+	);
+}
+
+/**
+ * Give the admin role to users listed in ADMIN_USER_IDS (comma-separated), so there
+ * is a way in before any roles have been assigned. Each ID is looked at once: one that
+ * isn't an existing user is ignored for good, so nobody can gain the role by
+ * registering later. After that, roles are managed under /api/admin/users.
+ */
+function grantConfiguredAdmins(db: Database.Database): void {
+	const configured = (env.ADMIN_USER_IDS ?? '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+	if (configured.length === 0) return;
+
+	const getMeta = db.prepare('SELECT value FROM app_meta WHERE key = ?').pluck();
+	const handled = new Set<string>(JSON.parse((getMeta.get(ADMIN_GRANTS_KEY) as string | undefined) ?? '[]'));
+	const pending = configured.filter((id) => !handled.has(id));
+	if (pending.length === 0) return;
+
+	db.transaction(() => {
+		for (const id of pending) {
+			const granted = db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(id).changes > 0;
+			if (granted) {
+				console.log(`Made user ${id} an admin`);
+			} else {
+				console.warn(`ADMIN_USER_IDS lists ${id}, which is not an existing user; it is ignored`);
+			}
+			handled.add(id);
+		}
+
+		db.prepare('INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)').run(
+			ADMIN_GRANTS_KEY,
+			JSON.stringify([...handled])
+		);
+	})();
+}
@@ -1,225 +1,1808 @@
-import type { Photo, User, Comment } from '$lib/types';
+import { Readable } from 'node:stream';
+import type { Database } from 'better-sqlite3';
+import type {
+	Album,
+	AlbumDetail,
+	AlbumSummary,
+	AlbumUpdate,
+	CommentMention,
+	ContentModerationAction,
+	ContentStatus,
+	Photo,
+	PhotoPage,
+	PhotoQuery,
+	PhotoSort,
+	PhotoUpdate,
+	PhotoVariant,
+	PhotoVisibility,
+	ProfileUpdate,
+	ReactionCount,
+	ReactionType,
+	SearchPage,
+	Trash,
+	TrashedComment,
+	User,
+	UserRole,
+	UserProfile,
+	Comment
+} from '$lib/types';
+import { AVATARS, REACTION_TYPES, TRASH_RETENTION_DAYS, normalizeTag } from '$lib/utils';
 import {
-	uploadPhoto,
-	getPhotosIndex,
-	savePhotosIndex,
-	getCommentsIndex,
-	saveCommentsIndex,
-	dataUrlToArrayBuffer,
-	getPhotoBlobUrl
-} from './azure-storage';
-
-// Mock users (still in-memory for demo)
-export const users: User[] = [
-	{ id: '1', username: 'alice', avatar: '👩' },
-	{ id: '2', username: 'bob', avatar: '👨' },
-	{ id: '3', username: 'charlie', avatar: '🧑' }
-];
-
-// In-memory cache to reduce Azure calls during a session
-let photosCache: Photo[] = [];
-let photoIdCounter = 1;
-let commentIdCounter = 100;
-let cacheInitialized = false;
-
-/**
- * Initialize cache from Azure Storage
- */
-async function initializeCache() {
-	if (cacheInitialized) return;
+	getStorage,
+	getIndex,
+	updateIndex,
+	getPhotoBlobName,
+	getVariantBlobName,
+	ALBUMS_INDEX_BLOB
+} from './storage';
+import { getDatabase, initializeDatabase } from './database';
+import { newId } from './ids';
+import { findCurrentId, type LegacyIdType } from './legacy-ids';
+import {
+	insertPhoto,
+	readComments,
+	readPhotos,
+	readReactions,
+	saveComment,
+	savePhoto,
+	saveReaction,
+	saveSearchIndexes,
+	saveUser,
+	toStoredPhoto,
+	toStoredUser,
+	type CommentRow,
+	type PhotoRow,
+	type UserRow
+} from './records';
+import { hashPassword, verifyPassword } from './auth';
+import { processImage, type ProcessedImage } from './images';
+import { UploadError, teeStream, type UploadLimit } from './uploads';
+import { parseDateBound, parseQuery, toMatchExpression, SEARCH_RANK } from './search';
+import { extractMentions, formatComment } from './format';
+import { serverEvents } from './events';
 
-	try {
-		photosCache = await getPhotosIndex();
-
-		// Ensure all photo URLs have current SAS tokens
-		photosCache = photosCache.map(photo => {
-			// Extract blob name from URL if it's an Azure URL
-			if (photo.imageUrl && photo.imageUrl.includes('blob.core.windows.net/photo/')) {
-				const blobName = photo.imageUrl.split('/photo/')[1].split('?')[0];
-				// Reconstruct URL with current SAS token from .env
-				photo.imageUrl = getPhotoBlobUrl(blobName);
-			}
-			return photo;
-		});
+/**
+ * User account as persisted in the users table
+ */
+export interface StoredUser extends Omit<User, 'role'> {
+	createdAt: string;
+	// Absent for members
+	role?: UserRole;
+	// null for accounts that cannot sign in (e.g. the original demo users)
+	passwordHash: string | null;
+	bannedBy?: string;
+}
+
+/**
+ * IDs of the users who chose each reaction. Stays on the server; clients only
+ * see counts and whether they reacted themselves.
+ */
+export type ReactionUsers = Partial<Record<ReactionType, string[]>>;
 
-		// Set counters based on existing data
-		if (photosCache.length > 0) {
-			const maxPhotoId = Math.max(...photosCache.map(p => parseInt(p.id) || 0));
-			photoIdCounter = maxPhotoId + 1;
+export interface StoredComment extends Omit<Comment, 'reactions'> {
+	reactedBy?: ReactionUsers;
+}
 
-			const allComments = photosCache.flatMap(p => p.comments);
-			if (allComments.length > 0) {
-				const maxCommentId = Math.max(...allComments.map(c => parseInt(c.id) || 0));
-				commentIdCounter = maxCommentId + 1;
-			}
-		}
+/**
+ * A variant as persisted; browsers get its URL from toPhotoView
+ */
+export interface StoredVariant extends Omit<PhotoVariant, 'url'> {
+	blobName: string;
+}
 
-		cacheInitialized = true;
-	} catch (error) {
-		console.error('Failed to initialize cache from Azure:', error);
-		photosCache = [];
-		cacheInitialized = true;
+/**
+ * Photo as persisted in the photos table, with its comments and reactions. Images are
+ * stored by blob name only; browsers load them through /images/[id], never from
+ * storage directly.
+ */
+export interface StoredPhoto
+	extends Omit<Photo, 'comments' | 'reactions' | 'imageUrl' | 'variants' | 'visibility'> {
+	// Absent for public photos
+	visibility?: PhotoVisibility;
+	// The original image in the photo container
+	blobName?: string;
+	// Only for images hosted elsewhere, such as the original demo photos
+	imageUrl?: string;
+	variants?: StoredVariant[];
+	// Bytes stored for the original and its variants, counted against the owner's quota.
+	// Absent for photos uploaded before quotas were tracked.
+	sizeBytes?: number;
+	comments: StoredComment[];
+	reactedBy?: ReactionUsers;
+}
+
+// IDs of photos whose images are being uploaded by this process
+const uploadsInProgress = new Set<string>();
+
+/**
+ * Path browsers load a photo's image (or one of its variants) from
+ */
+function getImagePath(
+	photoId: string,
+	variant?: Pick<PhotoVariant, 'name' | 'format'>,
+	shareToken?: string
+): string {
+	const path = variant ? `/images/${photoId}/${variant.name}.${variant.format}` : `/images/${photoId}`;
+	// Lets someone with a share link load images they couldn't otherwise see
+	return shareToken ? `${path}?share=${shareToken}` : path;
+}
+
+function summarizeReactions(reactedBy: ReactionUsers | undefined, viewerId?: string): ReactionCount[] {
+	return REACTION_TYPES.flatMap((type) => {
+		const userIds = reactedBy?.[type] ?? [];
+		return userIds.length > 0
+			? [{ type, count: userIds.length, reacted: !!viewerId && userIds.includes(viewerId) }]
+			: [];
+	});
+}
+
+/**
+ * Shape a stored comment for a response to the given user
+ */
+export function toCommentView(comment: StoredComment, viewerId?: string): Comment {
+	const { reactedBy, ...rest } = comment;
+	if (comment.deletedAt || comment.hiddenAt) {
+		const {
+			revisions: _revisions,
+			html: _html,
+			mentions: _mentions,
+			deletedBy: _deletedBy,
+			hiddenBy: _hiddenBy,
+			...placeholder
+		} = rest;
+		return { ...placeholder, content: '', reactions: [] };
 	}
+	return { ...rest, reactions: summarizeReactions(reactedBy, viewerId) };
+}
+
+/**
+ * Shape a stored photo for a response to the given user, or to someone viewing it
+ * through the share link with `shareToken`
+ */
+export function toPhotoView(photo: StoredPhoto, viewerId?: string, shareToken?: string): Photo {
+	const { reactedBy, comments, blobName, imageUrl, variants, sizeBytes: _sizeBytes, ...rest } = photo;
+	return {
+		...rest,
+		visibility: photo.visibility ?? 'public',
+		imageUrl: blobName ? getImagePath(photo.id, undefined, shareToken) : (imageUrl ?? ''),
+		variants: variants?.map(({ blobName: _blobName, ...variant }) => ({
+			...variant,
+			url: getImagePath(photo.id, variant, shareToken)
+		})),
+		comments: comments.map((comment) => toCommentView(comment, viewerId)),
+		reactions: summarizeReactions(reactedBy, viewerId)
+	};
+}
+
+/**
+ * Open the database, importing the JSON indexes and replacing numeric IDs the first time
+ */
+function initialize(): Promise<void> {
+	return initializeDatabase();
+}
+
+/**
+ * Run a change in one transaction, so it is saved completely or not at all
+ */
+function transact<R>(change: (db: Database) => R): R {
+	const db = getDatabase();
+	return db.transaction(change)(db);
+}
+
+// Rows of photos that are listed (see isListed), for queries aliasing photos as `p`
+const LISTED = 'p.deleted_at IS NULL AND p.hidden_at IS NULL';
+
+// Listed photos the viewer bound as @viewerId may open, as canViewPhoto decides
+const VIEWABLE = `(
+	p.user_id = @viewerId
+	OR p.visibility IN ('public', 'unlisted')
+	OR (p.visibility = 'followers' AND EXISTS (
+		SELECT 1 FROM follows f WHERE f.follower_id = @viewerId AND f.user_id = p.user_id
+	))
+)`;
+
+// Of those, the ones they see in feeds, as canListPhoto decides
+const LISTABLE = `(${VIEWABLE} AND (p.visibility <> 'unlisted' OR p.user_id = @viewerId))`;
+
+/**
+ * A photo with its comments and reactions, whatever state it is in
+ */
+function loadPhoto(db: Database, id: string): StoredPhoto | undefined {
+	const rows = db.prepare('SELECT * FROM photos WHERE id = ?').all(id) as PhotoRow[];
+	return readPhotos(db, rows)[0];
+}
+
+/**
+ * Listed photos by ID, for those of `ids` that are
+ */
+function loadListedPhotos(db: Database, ids: string[]): Map<string, StoredPhoto> {
+	const rows = db
+		.prepare(`SELECT * FROM photos p WHERE ${LISTED} AND p.id IN (SELECT value FROM json_each(?))`)
+		.all(JSON.stringify(ids)) as PhotoRow[];
+	return new Map(readPhotos(db, rows).map((photo) => [photo.id, photo]));
+}
+
+/**
+ * Whether a photo is live: not in the trash nor hidden by a moderator. Who may see
+ * it then depends on its visibility (see canViewPhoto).
+ */
+function isListed(photo: StoredPhoto): boolean {
+	return !photo.deletedAt && !photo.hiddenAt;
+}
+
+/**
+ * Whether a viewer may open a listed photo, going by its visibility
+ */
+export function canViewPhoto(photo: StoredPhoto, viewerId?: string): boolean {
+	if (photo.userId === viewerId) return true;
+
+	const visibility = photo.visibility ?? 'public';
+	if (visibility === 'followers') return !!viewerId && isFollowing(viewerId, photo.userId);
+	return visibility === 'public' || visibility === 'unlisted';
+}
+
+/**
+ * Whether a listed photo appears in a viewer's feeds and search results. Owners
+ * still find their own unlisted photos there.
+ */
+export function canListPhoto(photo: StoredPhoto, viewerId?: string): boolean {
+	return canViewPhoto(photo, viewerId) && (photo.visibility !== 'unlisted' || photo.userId === viewerId);
+}
+
+/**
+ * Whether something deleted at `deletedAt` can still be restored
+ */
+function isRestorable(deletedAt: string, now = Date.now()): boolean {
+	return now - new Date(deletedAt).getTime() < TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
 }
 
 /**
- * Sync cache to Azure Storage
+ * Position of a photo in a sorted feed; a cursor is the key of the last photo sent
  */
-async function syncToAzure() {
+interface FeedKey {
+	createdAt: string;
+	comments: number;
+	id: string;
+}
+
+export class InvalidCursorError extends Error {
+	constructor() {
+		super('Invalid cursor');
+		this.name = 'InvalidCursorError';
+	}
+}
+
+// How each sort orders feed rows, and which rows come after a cursor's key. IDs only
+// break ties, so any consistent order works.
+const FEED_ORDER: Record<PhotoSort, string> = {
+	newest: 'created_at DESC, id DESC',
+	oldest: 'created_at ASC, id ASC',
+	'most-commented': 'comment_count DESC, created_at DESC, id DESC'
+};
+
+const AFTER_KEY: Record<PhotoSort, string> = {
+	newest: '(created_at < @afterCreatedAt OR (created_at = @afterCreatedAt AND id < @afterId))',
+	oldest: '(created_at > @afterCreatedAt OR (created_at = @afterCreatedAt AND id > @afterId))',
+	'most-commented': `(
+		comment_count < @afterComments
+		OR (comment_count = @afterComments AND (
+			created_at < @afterCreatedAt OR (created_at = @afterCreatedAt AND id < @afterId)
+		))
+	)`
+};
+
+function encodeCursor(key: FeedKey, sort: PhotoSort): string {
+	return Buffer.from(JSON.stringify({ ...key, sort })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: PhotoSort): FeedKey {
 	try {
-		await savePhotosIndex(photosCache);
+		const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+		if (
+			key.sort !== sort ||
+			typeof key.createdAt !== 'string' ||
+			typeof key.comments !== 'number' ||
+			typeof key.id !== 'string'
+		) {
+			throw new InvalidCursorError();
+		}
+		return { createdAt: key.createdAt, comments: key.comments, id: key.id };
+	} catch {
+		throw new InvalidCursorError();
+	}
+}
+
+/**
+ * Page through photos with keyset pagination. Because the cursor is the position of the
+ * last photo returned rather than an offset, uploads and deletions between requests
+ * don't shift or duplicate items.
+ */
+export async function getPhotos(query: PhotoQuery = {}, viewerId?: string): Promise<PhotoPage> {
+	await initialize();
+	return pagePhotos(query, viewerId);
+}
+
+/**
+ * The "Following" feed: photos by the users `userId` follows, paged like getPhotos
+ */
+export async function getFollowingPhotos(userId: string, query: PhotoQuery = {}): Promise<PhotoPage> {
+	await initialize();
+	return pagePhotos(query, userId, userId);
+}
+
+function pagePhotos(query: PhotoQuery, viewerId?: string, followedBy?: string): PhotoPage {
+	const db = getDatabase();
+	const sort = query.sort ?? 'newest';
+	const limit = query.limit ?? 10;
+	const after = query.cursor ? decodeCursor(query.cursor, sort) : null;
+	const from = parseDateBound(query.from, false);
+	const to = parseDateBound(query.to, true);
+	const tag = query.tag ? normalizeTag(query.tag) : null;
+
+	const conditions = [LISTED, LISTABLE];
+	const params: Record<string, string | number | null> = { viewerId: viewerId ?? null, limit: limit + 1 };
+
+	if (followedBy) {
+		conditions.push('p.user_id IN (SELECT user_id FROM follows WHERE follower_id = @followedBy)');
+		params.followedBy = followedBy;
+	}
+	if (query.userId) {
+		conditions.push('p.user_id = @userId');
+		params.userId = query.userId;
+	}
+	if (tag) {
+		conditions.push('EXISTS (SELECT 1 FROM photo_tags t WHERE t.photo_id = p.id AND t.tag = @tag)');
+		params.tag = tag;
+	}
+	if (from !== null) {
+		conditions.push('p.created_at >= @from');
+		params.from = new Date(from).toISOString();
+	}
+	if (to !== null) {
+		conditions.push('p.created_at < @to');
+		params.to = new Date(to).toISOString();
+	}
+	if (after) {
+		params.afterCreatedAt = after.createdAt;
+		params.afterId = after.id;
+		if (sort === 'most-commented') params.afterComments = after.comments;
+	}
+
+	const rows = db
+		.prepare(
+			`SELECT * FROM (
+				SELECT p.*, (
+					SELECT COUNT(*) FROM comments c
+					WHERE c.photo_id = p.id AND c.deleted_at IS NULL AND c.hidden_at IS NULL
+				) AS comment_count
+				FROM photos p
+				WHERE ${conditions.join(' AND ')}
+			)
+			${after ? `WHERE ${AFTER_KEY[sort]}` : ''}
+			ORDER BY ${FEED_ORDER[sort]}
+			LIMIT @limit`
+		)
+		.all(params) as (PhotoRow & { comment_count: number })[];
+
+	const page = rows.slice(0, limit);
+	const hasMore = rows.length > limit;
+	const last = page[page.length - 1];
+
+	return {
+		photos: readPhotos(db, page).map((photo) => toPhotoView(photo, viewerId)),
+		nextCursor: hasMore
+			? encodeCursor({ createdAt: last.created_at, comments: last.comment_count, id: last.id }, sort)
+			: null,
+		hasMore
+	};
+}
+
+/**
+ * Search photos (see parseQuery for the syntax), best matches first. The cursor is the
+ * offset into the ranked results, so pages can shift if photos change in between.
+ */
+export async function searchPhotos(
+	query: string,
+	options: { cursor?: string; limit?: number } = {},
+	viewerId?: string
+): Promise<SearchPage> {
+	await initialize();
+
+	let offset = 0;
+	if (options.cursor) {
+		offset = Number(Buffer.from(options.cursor, 'base64url').toString('utf-8'));
+		if (!Number.isInteger(offset) || offset < 0) throw new InvalidCursorError();
+	}
+
+	const limit = options.limit ?? 10;
+	const parsed = parseQuery(query);
+	const match = toMatchExpression(parsed);
+
+	const conditions = [LISTED, LISTABLE];
+	const params: Record<string, string | number | null> = {
+		viewerId: viewerId ?? null,
+		limit,
+		offset
+	};
 
-		// Extract and save comments separately
-		const allComments = photosCache.flatMap(p =>
-			p.comments.map(c => ({ ...c, photoId: p.id }))
+	if (match) {
+		conditions.push('photo_search MATCH @match');
+		params.match = match;
+	}
+	if (parsed.users.length > 0) {
+		conditions.push('lower(p.username) IN (SELECT value FROM json_each(@users))');
+		params.users = JSON.stringify(parsed.users);
+	}
+	if (parsed.tags.length > 0) {
+		conditions.push(
+			`(SELECT COUNT(*) FROM photo_tags t
+			WHERE t.photo_id = p.id AND t.tag IN (SELECT value FROM json_each(@tags))) = @tagCount`
 		);
-		await saveCommentsIndex(allComments);
-	} catch (error) {
-		console.error('Failed to sync to Azure:', error);
-		throw error;
+		params.tags = JSON.stringify(parsed.tags);
+		params.tagCount = new Set(parsed.tags).size;
+	}
+	if (parsed.dates.length > 0) {
+		conditions.push("NOT EXISTS (SELECT 1 FROM json_each(@dates) d WHERE p.created_at NOT LIKE d.value || '%')");
+		params.dates = JSON.stringify(parsed.dates);
 	}
+	if (parsed.from !== null) {
+		conditions.push('p.created_at >= @from');
+		params.from = new Date(parsed.from).toISOString();
+	}
+	if (parsed.to !== null) {
+		conditions.push('p.created_at < @to');
+		params.to = new Date(parsed.to).toISOString();
+	}
+
+	// Without words there is nothing to rank by, so matches are listed newest first
+	const from = `FROM photos p ${match ? 'JOIN photo_search ON photo_search.rowid = p.rowid' : ''}
+		WHERE ${conditions.join(' AND ')}`;
+	const order = `${match ? `${SEARCH_RANK}, ` : ''}p.created_at DESC, p.id DESC`;
+
+	const db = getDatabase();
+	const total = db.prepare(`SELECT COUNT(*) ${from}`).pluck().get(params) as number;
+	const rows = db
+		.prepare(`SELECT p.* ${from} ORDER BY ${order} LIMIT @limit OFFSET @offset`)
+		.all(params) as PhotoRow[];
+	const hasMore = offset + limit < total;
+
+	return {
+		photos: readPhotos(db, rows).map((photo) => toPhotoView(photo, viewerId)),
+		nextCursor: hasMore ? Buffer.from(String(offset + limit)).toString('base64url') : null,
+		hasMore,
+		total
+	};
 }
 
-export async function getPhotos(offset: number = 0, limit: number = 10): Promise<Photo[]> {
-	await initializeCache();
+export async function getPhotoById(id: string, viewerId?: string): Promise<Photo | undefined> {
+	await initialize();
+	const photo = loadPhoto(getDatabase(), id);
+	return photo && isListed(photo) && canViewPhoto(photo, viewerId) ? toPhotoView(photo, viewerId) : undefined;
+}
 
-	return photosCache
-		.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-		.slice(offset, offset + limit);
+/**
+ * A photo as seen through one of its share links (see sharing.ts), whatever its
+ * visibility
+ */
+export async function getSharedPhoto(id: string, shareToken: string): Promise<Photo | undefined> {
+	await initialize();
+	const photo = loadPhoto(getDatabase(), id);
+	return photo && isListed(photo) ? toPhotoView(photo, undefined, shareToken) : undefined;
 }
 
-export async function getPhotoById(id: string): Promise<Photo | undefined> {
-	await initializeCache();
-	return photosCache.find((p) => p.id === id);
+/**
+ * The ID a photo or comment has now, given the numeric ID it had before photos and
+ * comments got UUIDs. Used to redirect old URLs.
+ */
+export async function getCurrentId(type: LegacyIdType, legacyId: string): Promise<string | undefined> {
+	await initialize();
+	return findCurrentId(getDatabase(), type, legacyId);
 }
 
+/**
+ * Store a new photo. `image` is streamed through the image processor and into storage
+ * at the same time; `contentType` must already be verified (see inspectImageStream).
+ * Location data is stripped unless `keepLocation` is set. Throws UploadError if the
+ * stored images would take more than `storageLimit` allows.
+ */
 export async function createPhoto(
 	userId: string,
 	username: string,
 	title: string,
-	imageDataUrl: string,
-	description?: string
+	image: Buffer | Readable,
+	contentType: string,
+	description?: string,
+	options: {
+		keepLocation?: boolean;
+		tags?: string[];
+		visibility?: PhotoVisibility;
+		// Storage the image and its variants may take up together (see getUploadLimits)
+		storageLimit?: UploadLimit;
+	} = {}
 ): Promise<Photo> {
-	await initializeCache();
+	await initialize();
 
-	const photoId = String(photoIdCounter++);
+	const photoId = newId();
+	// Its blobs exist before its row does; reconciliation must leave them be
+	uploadsInProgress.add(photoId);
 
-	// Upload image to Azure Blob Storage
-	let imageUrl: string;
 	try {
-		const { buffer, contentType } = dataUrlToArrayBuffer(imageDataUrl);
-		imageUrl = await uploadPhoto(photoId, buffer, contentType);
-	} catch (error) {
-		console.error('Failed to upload photo to Azure:', error);
-		throw new Error('Failed to upload photo to Azure storage');
-	}
+		const storage = await getStorage();
+		const blobName = getPhotoBlobName(photoId, contentType);
+		const source = Buffer.isBuffer(image) ? Readable.from([image]) : image;
 
-	const newPhoto: Photo = {
-		id: photoId,
-		userId,
-		username,
-		imageUrl,
-		title,
-		description,
-		createdAt: new Date().toISOString(),
-		comments: []
-	};
+		// GIFs carry no EXIF and are stored as uploaded; everything else is re-encoded
+		let storageStream: Readable | null = null;
+		let processStream = source;
+		if (contentType === 'image/gif') {
+			[storageStream, processStream] = teeStream(source);
+		}
+
+		const { original, result } = processImage(processStream, {
+			contentType,
+			keepLocation: options.keepLocation ?? false
+		});
+
+		// For GIFs the variants are an optimization; the original is still usable without them
+		const processing = result.catch((error): ProcessedImage | null => {
+			// Upload errors are reported by the storage upload below
+			if (!(error instanceof UploadError)) {
+				console.error('Failed to process image:', error);
+			}
+			// Stop feeding the processor so it can't hold back the storage upload
+			processStream.destroy();
+			return null;
+		});
+
+		// Upload original image to blob storage
+		let processed: ProcessedImage | null;
+		let sizeBytes: number;
+		try {
+			[sizeBytes, processed] = await Promise.all([
+				storage.putBlobStream('photo', blobName, (original ?? storageStream)!, contentType),
+				processing
+			]);
+		} catch (error) {
+			await storage.deleteBlob('photo', blobName).catch(() => {});
+			if (error instanceof UploadError) throw error;
+			if (original && !(await processing)) {
+				throw new UploadError('The image could not be read', 422);
+			}
+			console.error('Failed to upload photo to storage:', error);
+			throw new Error('Failed to upload photo to storage');
+		}
 
-	photosCache.unshift(newPhoto);
+		const uploadedBlobs = [blobName];
+		// Don't leave images behind that no photo points to
+		const deleteUploadedBlobs = () =>
+			Promise.all(uploadedBlobs.map((name) => storage.deleteBlob('photo', name).catch(() => {})));
 
-	// Sync to Azure in background
-	syncToAzure().catch(err => console.error('Background sync failed:', err));
+		const newPhoto: StoredPhoto = {
+			id: photoId,
+			userId,
+			username,
+			blobName,
+			title,
+			description,
+			tags: options.tags ?? [],
+			createdAt: new Date().toISOString(),
+			sizeBytes,
+			comments: []
+		};
+		if (options.visibility && options.visibility !== 'public') {
+			newPhoto.visibility = options.visibility;
+		}
+
+		if (processed) {
+			// Wait for every upload to finish, so none lands after the cleanup below
+			const stored = await Promise.allSettled(
+				processed.variants.map(async (variant): Promise<StoredVariant> => {
+					const variantBlobName = getVariantBlobName(photoId, variant.name, variant.contentType);
+					await storage.putBlob('photo', variantBlobName, new Uint8Array(variant.data), variant.contentType);
+					uploadedBlobs.push(variantBlobName);
+					return {
+						name: variant.name,
+						format: variant.format,
+						width: variant.width,
+						height: variant.height,
+						blobName: variantBlobName
+					};
+				})
+			);
+
+			const failure = stored.find((result) => result.status === 'rejected');
+			if (failure) {
+				console.error('Failed to store image variants:', failure.reason);
+				await deleteUploadedBlobs();
+				throw new Error('Failed to upload photo to storage');
+			}
+
+			newPhoto.variants = stored.map((result) => (result as PromiseFulfilledResult<StoredVariant>).value);
+			newPhoto.sizeBytes = processed.variants.reduce(
+				(total, variant) => total + variant.data.byteLength,
+				sizeBytes
+			);
+
+			newPhoto.width = processed.width;
+			newPhoto.height = processed.height;
+			newPhoto.metadata = processed.metadata;
+			if (processed.location) {
+				newPhoto.location = processed.location;
+			}
+		}
 
-	return newPhoto;
+		if (options.storageLimit && (newPhoto.sizeBytes ?? 0) > options.storageLimit.maxBytes) {
+			await deleteUploadedBlobs();
+			throw new UploadError(options.storageLimit.message, 413);
+		}
+
+		try {
+			transact((db) => insertPhoto(db, newPhoto));
+			emitPhotoEvent('photo:created', newPhoto.id);
+		} catch (error) {
+			await deleteUploadedBlobs();
+			throw error;
+		}
+
+		return toPhotoView(newPhoto, userId);
+	} finally {
+		uploadsInProgress.delete(photoId);
+	}
 }
 
 export async function updatePhoto(
 	id: string,
 	userId: string,
-	updates: { title?: string; description?: string }
+	updates: PhotoUpdate
 ): Promise<Photo | null> {
-	await initializeCache();
+	await initialize();
+
+	const change = transact((db) => {
+		const photo = loadPhoto(db, id);
+		if (!photo || photo.userId !== userId || !isListed(photo)) {
+			return null;
+		}
+
+		const previous = { ...photo };
+		if (updates.title !== undefined) photo.title = updates.title;
+		if (updates.description !== undefined) photo.description = updates.description;
+		if (updates.tags !== undefined) photo.tags = updates.tags;
+		if (updates.visibility === 'public') {
+			delete photo.visibility;
+		} else if (updates.visibility !== undefined) {
+			photo.visibility = updates.visibility;
+		}
+
+		savePhoto(db, photo);
+		return { photo, previous };
+	});
 
-	const photo = photosCache.find((p) => p.id === id);
-	if (!photo || photo.userId !== userId) {
+	if (!change) {
 		return null;
 	}
 
-	if (updates.title !== undefined) photo.title = updates.title;
-	if (updates.description !== undefined) photo.description = updates.description;
+	emitPhotoEvent('photo:updated', id, change.previous);
+	return toPhotoView(change.photo, userId);
+}
+
+/**
+ * Move a photo to the trash. It disappears everywhere but the owner's trash, and
+ * is purged with its images once TRASH_RETENTION_DAYS have passed.
+ */
+export async function deletePhoto(id: string, userId: string): Promise<boolean> {
+	await initialize();
+
+	const deleted = transact((db) => {
+		const photo = loadPhoto(db, id);
+		if (!photo || photo.userId !== userId || photo.deletedAt) {
+			return false;
+		}
 
-	// Sync to Azure
-	await syncToAzure();
+		photo.deletedAt = new Date().toISOString();
+		photo.deletedBy = userId;
+		savePhoto(db, photo);
+		return true;
+	});
 
-	return photo;
+	if (deleted) {
+		emitPhotoEvent('photo:deleted', id);
+	}
+	return deleted;
 }
 
-export async function deletePhoto(id: string, userId: string): Promise<boolean> {
-	await initializeCache();
+/**
+ * Take one of the user's photos out of the trash. Returns null if it isn't there
+ * or has been there too long.
+ */
+export async function restorePhoto(id: string, userId: string): Promise<Photo | null> {
+	await initialize();
 
-	const index = photosCache.findIndex((p) => p.id === id && p.userId === userId);
-	if (index === -1) {
-		return false;
+	const photo = transact((db) => {
+		// Photos a moderator deleted can only be restored by a moderator
+		const photo = loadPhoto(db, id);
+		if (!photo?.deletedAt || photo.deletedBy !== userId || !isRestorable(photo.deletedAt)) {
+			return null;
+		}
+
+		delete photo.deletedAt;
+		delete photo.deletedBy;
+		savePhoto(db, photo);
+		return photo;
+	});
+
+	if (!photo) {
+		return null;
+	}
+
+	// A photo that is also hidden stays out of sight
+	if (isListed(photo)) {
+		emitPhotoEvent('photo:restored', id);
 	}
+	return toPhotoView(photo, userId);
+}
+
+/**
+ * Names of the blobs holding a photo's image and its variants
+ */
+export function getPhotoBlobNames(photo: Pick<StoredPhoto, 'blobName' | 'variants'>): string[] {
+	return [photo.blobName, ...(photo.variants ?? []).map((variant) => variant.blobName)].filter(
+		(name): name is string => !!name
+	);
+}
 
-	photosCache.splice(index, 1);
+/**
+ * Every photo's ID and image blobs, whatever state it is in, for reconciliation
+ */
+export async function getPhotoBlobs(): Promise<Pick<StoredPhoto, 'id' | 'blobName' | 'variants'>[]> {
+	await initialize();
 
-	// Sync to Azure
-	await syncToAzure();
+	const rows = getDatabase().prepare('SELECT * FROM photos').all() as PhotoRow[];
+	return rows.map((row) => toStoredPhoto(row));
+}
 
-	return true;
+/**
+ * Blob holding a photo's original image, or the variant named like `medium.webp`,
+ * if the viewer may see it. `isPublic` says whether shared caches may keep it.
+ */
+export async function getPhotoImage(
+	photoId: string,
+	variant: string | undefined,
+	access: { viewerId?: string; canModerate?: boolean; shared?: boolean } = {}
+): Promise<{ blobName: string; isPublic: boolean } | undefined> {
+	await initialize();
+
+	// Comments don't matter here, so only the photo's own row is read
+	const row = getDatabase().prepare('SELECT * FROM photos WHERE id = ?').get(photoId) as PhotoRow | undefined;
+	if (!row) {
+		return undefined;
+	}
+	const photo = toStoredPhoto(row);
+
+	// Owners still see their trashed photos in the trash, moderators see everything
+	const visible =
+		(isListed(photo) && (access.shared || canViewPhoto(photo, access.viewerId))) ||
+		access.canModerate ||
+		(!photo.hiddenAt && photo.userId === access.viewerId);
+	if (!visible) {
+		return undefined;
+	}
+
+	const blobName = variant
+		? photo.variants?.find((v) => `${v.name}.${v.format}` === variant)?.blobName
+		: photo.blobName;
+
+	const isPublic = isListed(photo) && canViewPhoto(photo);
+	return blobName ? { blobName, isPublic } : undefined;
+}
+
+/**
+ * Bytes of storage a user's photos take up, including those in the trash or hidden
+ * by a moderator, since their images are kept until they are purged
+ */
+export async function getStorageUsed(userId: string): Promise<number> {
+	await initialize();
+
+	return getDatabase()
+		.prepare('SELECT COALESCE(SUM(size_bytes), 0) FROM photos WHERE user_id = ?')
+		.pluck()
+		.get(userId) as number;
+}
+
+/**
+ * Whether this process is still uploading the images for a photo ID
+ */
+export function isUploadInProgress(photoId: string): boolean {
+	return uploadsInProgress.has(photoId);
 }
 
+/**
+ * Announce a saved photo change, with the photo as it now stands and, for updates,
+ * as it was before
+ */
+function emitPhotoEvent(
+	name: 'photo:created' | 'photo:updated' | 'photo:deleted' | 'photo:restored',
+	photoId: string,
+	previous?: StoredPhoto
+) {
+	const photo = loadPhoto(getDatabase(), photoId);
+	if (photo) {
+		serverEvents.emit(name, previous ? { photo, previous } : { photo });
+	}
+}
+
+/**
+ * Comment on a photo, or reply to one of its comments with `parentId`.
+ * Returns null if the photo or the comment replied to doesn't exist.
+ */
 export async function addComment(
 	photoId: string,
 	userId: string,
 	username: string,
-	content: string
+	content: string,
+	parentId?: string
 ): Promise<Comment | null> {
-	await initializeCache();
-
-	const photo = photosCache.find((p) => p.id === photoId);
-	if (!photo) {
-		return null;
-	}
+	await initialize();
 
-	const comment: Comment = {
-		id: String(commentIdCounter++),
+	const mentions = await resolveMentions(content);
+	const comment: StoredComment = {
+		id: newId(),
 		photoId,
+		parentId,
 		userId,
 		username,
 		content,
+		html: formatComment(content, mentions),
+		mentions,
 		createdAt: new Date().toISOString()
 	};
 
-	photo.comments.push(comment);
+	const added = transact((db) => {
+		const photo = loadPhoto(db, photoId);
+		if (!photo || !isListed(photo) || !canViewPhoto(photo, userId)) {
+			return false;
+		}
+		if (parentId && !photo.comments.some((c) => c.id === parentId && !c.deletedAt && !c.hiddenAt)) {
+			return false;
+		}
 
-	// Sync to Azure
-	await syncToAzure();
+		photo.comments.push(comment);
+		saveComment(db, comment);
+		saveSearchIndexes(db, photo);
+		return true;
+	});
 
-	return comment;
-}
+	if (!added) {
+		return null;
+	}
 
-export async function deleteComment(commentId: string, userId: string): Promise<boolean> {
-	await initializeCache();
+	emitCommentEvent('comment:added', comment.id);
+	return toCommentView(comment, userId);
+}
 
-	for (const photo of photosCache) {
-		const commentIndex = photo.comments.findIndex(
-			(c) => c.id === commentId && c.userId === userId
-		);
-		if (commentIndex !== -1) {
-			photo.comments.splice(commentIndex, 1);
+/**
+ * Announce a saved comment change, with the photo as it now stands
+ */
+function emitCommentEvent(
+	name: 'comment:added' | 'comment:updated' | 'comment:deleted' | 'comment:restored',
+	commentId: string
+) {
+	const found = loadComment(getDatabase(), commentId);
+	if (found) {
+		serverEvents.emit(name, found);
+	}
+}
 
-			// Sync to Azure
-			await syncToAzure();
+/**
+ * Look up the users @mentioned in a comment, skipping names that aren't registered
+ */
+async function resolveMentions(content: string): Promise<CommentMention[]> {
+	const mentions: CommentMention[] = [];
 
-			return true;
-		}
+	for (const name of extractMentions(content)) {
+		const user = await getUserByUsername(name);
+		if (user) mentions.push({ userId: user.id, username: user.username });
 	}
 
-	return false;
+	return mentions;
+}
+
+/**
+ * A comment along with the photo it is on, whatever state either is in
+ */
+function loadComment(
+	db: Database,
+	commentId: string
+): { photo: StoredPhoto; comment: StoredComment } | undefined {
+	const photoId = db.prepare('SELECT photo_id FROM comments WHERE id = ?').pluck().get(commentId) as
+		| string
+		| undefined;
+	const photo = photoId ? loadPhoto(db, photoId) : undefined;
+	const comment = photo?.comments.find((c) => c.id === commentId);
+	return photo && comment ? { photo, comment } : undefined;
+}
+
+/**
+ * Find a comment by ID on the photos shown to everyone
+ */
+function findComment(
+	db: Database,
+	commentId: string
+): { photo: StoredPhoto; comment: StoredComment } | undefined {
+	const found = loadComment(db, commentId);
+	return found && isListed(found.photo) ? found : undefined;
 }
 
-export function getUserById(id: string): User | undefined {
-	return users.find((u) => u.id === id);
+/**
+ * Change the text of a comment, keeping the previous version in its history.
+ * Returns null if the comment doesn't exist, was deleted or isn't the user's.
+ */
+export async function updateComment(
+	commentId: string,
+	userId: string,
+	content: string
+): Promise<Comment | null> {
+	await initialize();
+
+	const mentions = await resolveMentions(content);
+
+	const updated = transact((db) => {
+		const found = findComment(db, commentId);
+		const comment = found?.comment;
+		if (!found || !comment || comment.userId !== userId || comment.deletedAt || comment.hiddenAt) {
+			return null;
+		}
+
+		const changed = comment.content !== content;
+		if (changed) {
+			comment.revisions = [
+				...(comment.revisions ?? []),
+				{ content: comment.content, createdAt: comment.editedAt ?? comment.createdAt }
+			];
+			comment.content = content;
+			comment.html = formatComment(content, mentions);
+			comment.mentions = mentions;
+			comment.editedAt = new Date().toISOString();
+
+			saveComment(db, comment);
+			saveSearchIndexes(db, found.photo);
+		}
+
+		return { view: toCommentView(comment, userId), changed };
+	});
+
+	if (!updated) {
+		return null;
+	}
+
+	if (updated.changed) {
+		emitCommentEvent('comment:updated', commentId);
+	}
+	return updated.view;
+}
+
+/**
+ * Soft-delete a comment: it stays in the thread as a placeholder so replies keep
+ * their place, but its content is no longer shown
+ */
+export async function deleteComment(commentId: string, userId: string): Promise<boolean> {
+	await initialize();
+
+	const deleted = transact((db) => {
+		const found = findComment(db, commentId);
+		const comment = found?.comment;
+		if (!found || !comment || comment.userId !== userId || comment.deletedAt) {
+			return false;
+		}
+
+		comment.deletedAt = new Date().toISOString();
+		comment.deletedBy = userId;
+		saveComment(db, comment);
+		saveSearchIndexes(db, found.photo);
+		return true;
+	});
+
+	if (deleted) {
+		emitCommentEvent('comment:deleted', commentId);
+	}
+	return deleted;
+}
+
+/**
+ * Bring back one of the user's deleted comments. Returns null if it isn't deleted,
+ * has been deleted too long, or its photo is in the trash.
+ */
+export async function restoreComment(commentId: string, userId: string): Promise<Comment | null> {
+	await initialize();
+
+	const restored = transact((db) => {
+		const found = findComment(db, commentId);
+		const comment = found?.comment;
+		if (!found || !comment?.deletedAt || comment.deletedBy !== userId || !isRestorable(comment.deletedAt)) {
+			return null;
+		}
+
+		delete comment.deletedAt;
+		delete comment.deletedBy;
+		saveComment(db, comment);
+		saveSearchIndexes(db, found.photo);
+		return toCommentView(comment, userId);
+	});
+
+	// A comment that is also hidden stays a placeholder
+	if (restored && !restored.hiddenAt) {
+		emitCommentEvent('comment:restored', commentId);
+	}
+	return restored;
+}
+
+/**
+ * The user's deleted photos and comments that can still be restored. Comments on
+ * photos that are themselves in the trash come back with the photo.
+ */
+export async function getTrash(userId: string): Promise<Trash> {
+	await initialize();
+
+	const db = getDatabase();
+	const now = Date.now();
+
+	const photoRows = db
+		.prepare('SELECT * FROM photos WHERE deleted_by = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC')
+		.all(userId) as PhotoRow[];
+	const photos = readPhotos(db, photoRows.filter((row) => isRestorable(row.deleted_at!, now))).map(
+		(photo) => toPhotoView(photo, userId)
+	);
+
+	const commentRows = db
+		.prepare(
+			`SELECT c.*, p.title AS photo_title FROM comments c JOIN photos p ON p.id = c.photo_id
+			WHERE c.deleted_by = ? AND c.deleted_at IS NOT NULL AND ${LISTED}
+			ORDER BY c.deleted_at DESC`
+		)
+		.all(userId) as (CommentRow & { photo_title: string })[];
+	const restorable = commentRows.filter((row) => isRestorable(row.deleted_at!, now));
+
+	const comments: TrashedComment[] = readComments(db, restorable).map((comment, i) => {
+		const { reactedBy, ...rest } = comment;
+		return {
+			comment: { ...rest, reactions: summarizeReactions(reactedBy, userId) },
+			photoTitle: restorable[i].photo_title
+		};
+	});
+
+	return { photos, comments };
+}
+
+/**
+ * Permanently remove trashed photos (and their images) and deleted comments that
+ * are past TRASH_RETENTION_DAYS. Deleted comments that still have replies are kept
+ * as empty placeholders so the thread holds together.
+ */
+export async function purgeExpiredTrash(): Promise<{ photos: number; comments: number }> {
+	await initialize();
+
+	// Anything deleted at or before this is no longer restorable (see isRestorable)
+	const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+	const purged = transact((db) => {
+		const expiredRows = db.prepare('SELECT * FROM photos WHERE deleted_at <= ?').all(cutoff) as PhotoRow[];
+		const expiredPhotos = expiredRows.map((row) => toStoredPhoto(row));
+		// Their comments and tags go with them
+		db.prepare('DELETE FROM photos WHERE deleted_at <= ?').run(cutoff);
+
+		// Removing a reply can leave its (also deleted) parent without replies
+		const removeUnanswered = db.prepare(
+			`DELETE FROM comments WHERE deleted_at <= ?
+			AND NOT EXISTS (SELECT 1 FROM comments reply WHERE reply.parent_id = comments.id)`
+		);
+		let comments = 0;
+		let removed: number;
+		do {
+			removed = removeUnanswered.run(cutoff).changes;
+			comments += removed;
+		} while (removed > 0);
+
+		db.prepare(
+			`UPDATE comments SET content = '', html = NULL, mentions = NULL, revisions = NULL
+			WHERE deleted_at <= ?`
+		).run(cutoff);
+		// Reactions go with what they were on, and are cleared from the placeholders
+		db.prepare(
+			`DELETE FROM reactions
+			WHERE (target_type = 'photo' AND target_id NOT IN (SELECT id FROM photos))
+			OR (target_type = 'comment' AND target_id NOT IN (
+				SELECT id FROM comments WHERE deleted_at IS NULL OR deleted_at > ?
+			))`
+		).run(cutoff);
+
+		return { expiredPhotos, comments };
+	});
+
+	const storage = await getStorage();
+	await Promise.all(
+		purged.expiredPhotos.flatMap(getPhotoBlobNames).map((name) =>
+			// Anything left behind is an orphan that reconciliation will pick up
+			storage.deleteBlob('photo', name).catch((error) => {
+				console.error(`Failed to delete blob ${name}:`, error);
+			})
+		)
+	);
+
+	return { photos: purged.expiredPhotos.length, comments: purged.comments };
+}
+
+/**
+ * A photo or comment as the moderation queue describes it
+ */
+export interface ModerationTarget {
+	photoId: string;
+	userId: string;
+	username: string;
+	// The photo title or the comment content
+	excerpt: string;
+	status: ContentStatus;
+}
+
+function getContentStatus(item: { deletedAt?: string; hiddenAt?: string }): ContentStatus {
+	if (item.hiddenAt) return 'hidden';
+	if (item.deletedAt) return 'deleted';
+	return 'visible';
+}
+
+/**
+ * Look up a photo or comment for moderation, whatever state it is in. Comments on a
+ * photo that is hidden or deleted share its status. With `viewerId`, content on
+ * photos that user may not see is not found.
+ */
+export async function getModerationTarget(
+	type: 'photo' | 'comment',
+	id: string,
+	viewerId?: string
+): Promise<ModerationTarget | undefined> {
+	await initialize();
+
+	const db = getDatabase();
+
+	if (type === 'photo') {
+		const row = db.prepare('SELECT * FROM photos WHERE id = ?').get(id) as PhotoRow | undefined;
+		if (!row) return undefined;
+
+		const photo = toStoredPhoto(row);
+		if (viewerId !== undefined && !canViewPhoto(photo, viewerId)) return undefined;
+
+		const { userId, username, title } = photo;
+		return { photoId: photo.id, userId, username, excerpt: title, status: getContentStatus(photo) };
+	}
+
+	const found = loadComment(db, id);
+	if (!found) return undefined;
+
+	const { photo, comment } = found;
+	if (viewerId !== undefined && !canViewPhoto(photo, viewerId)) return undefined;
+
+	const { userId, username, content } = comment;
+	const ownStatus = getContentStatus(comment);
+	const status = ownStatus === 'visible' ? getContentStatus(photo) : ownStatus;
+	return { photoId: photo.id, userId, username, excerpt: content, status };
+}
+
+/**
+ * Apply a moderator's action to a photo or comment. Returns false if the action
+ * doesn't apply in its current state (e.g. unhiding something that isn't hidden).
+ */
+function applyModeration(
+	target: { deletedAt?: string; deletedBy?: string; hiddenAt?: string; hiddenBy?: string },
+	action: ContentModerationAction,
+	moderatorId: string
+): boolean {
+	const now = new Date().toISOString();
+
+	switch (action) {
+		case 'hide':
+			if (target.hiddenAt) return false;
+			target.hiddenAt = now;
+			target.hiddenBy = moderatorId;
+			return true;
+		case 'unhide':
+			if (!target.hiddenAt) return false;
+			delete target.hiddenAt;
+			delete target.hiddenBy;
+			return true;
+		case 'delete':
+			if (target.deletedAt) return false;
+			target.deletedAt = now;
+			target.deletedBy = moderatorId;
+			return true;
+		case 'restore':
+			if (!target.deletedAt || !isRestorable(target.deletedAt)) return false;
+			delete target.deletedAt;
+			delete target.deletedBy;
+			return true;
+	}
+}
+
+/**
+ * Hide, unhide, delete or restore anyone's photo. Deleted photos go to the trash
+ * and are purged like the owner's own deletions, but only a moderator can restore
+ * them. Returns false if the photo doesn't exist or the action doesn't apply.
+ */
+export async function moderatePhoto(
+	id: string,
+	action: ContentModerationAction,
+	moderatorId: string
+): Promise<boolean> {
+	await initialize();
+
+	const change = transact((db) => {
+		const photo = loadPhoto(db, id);
+		if (!photo) return null;
+
+		const wasListed = isListed(photo);
+		if (!applyModeration(photo, action, moderatorId)) return null;
+
+		savePhoto(db, photo);
+		return { wasListed, isListed: isListed(photo) };
+	});
+
+	if (!change) {
+		return false;
+	}
+
+	// Tell browsers only when the photo comes into or goes out of view
+	if (change.wasListed !== change.isListed) {
+		emitPhotoEvent(change.isListed ? 'photo:restored' : 'photo:deleted', id);
+	}
+	return true;
+}
+
+/**
+ * Hide, unhide, delete or restore anyone's comment. Returns false if the comment
+ * doesn't exist or the action doesn't apply.
+ */
+export async function moderateComment(
+	commentId: string,
+	action: ContentModerationAction,
+	moderatorId: string
+): Promise<boolean> {
+	await initialize();
+
+	const isShown = (comment: StoredComment) => !comment.deletedAt && !comment.hiddenAt;
+
+	const change = transact((db) => {
+		const found = loadComment(db, commentId);
+		if (!found) return null;
+
+		const { photo, comment } = found;
+		const wasShown = isShown(comment);
+		if (!applyModeration(comment, action, moderatorId)) return null;
+
+		saveComment(db, comment);
+		saveSearchIndexes(db, photo);
+		return { wasShown, isShown: isShown(comment) };
+	});
+
+	if (!change) {
+		return false;
+	}
+
+	if (change.wasShown !== change.isShown) {
+		emitCommentEvent(change.isShown ? 'comment:restored' : 'comment:deleted', commentId);
+	}
+	return true;
+}
+
+/**
+ * Add (`reacted` true) or remove a user's reaction to a photo. Each user holds at most
+ * one reaction of each type. Returns the photo's updated tallies, or null if not found.
+ */
+export async function setPhotoReaction(
+	photoId: string,
+	userId: string,
+	type: ReactionType,
+	reacted: boolean
+): Promise<ReactionCount[] | null> {
+	await initialize();
+
+	return transact((db) => {
+		const row = db.prepare('SELECT * FROM photos WHERE id = ?').get(photoId) as PhotoRow | undefined;
+		const photo = row && toStoredPhoto(row);
+		if (!photo || !isListed(photo) || !canViewPhoto(photo, userId)) {
+			return null;
+		}
+
+		saveReaction(db, 'photo', photoId, userId, type, reacted);
+		return summarizeReactions(readReactions(db, 'photo', [photoId]).get(photoId), userId);
+	});
+}
+
+/**
+ * Add or remove a user's reaction to a comment. Returns the comment's updated
+ * tallies, or null if not found.
+ */
+export async function setCommentReaction(
+	commentId: string,
+	userId: string,
+	type: ReactionType,
+	reacted: boolean
+): Promise<ReactionCount[] | null> {
+	await initialize();
+
+	return transact((db) => {
+		const found = findComment(db, commentId);
+		if (!found || found.comment.deletedAt || found.comment.hiddenAt || !canViewPhoto(found.photo, userId)) {
+			return null;
+		}
+
+		saveReaction(db, 'comment', commentId, userId, type, reacted);
+		return summarizeReactions(readReactions(db, 'comment', [commentId]).get(commentId), userId);
+	});
+}
+
+/**
+ * Resolve an album's photos; photos deleted since they were added, or that the
+ * viewer may not see, are skipped. Through a share link (`shareToken`) the album
+ * owner's own photos are all shown.
+ */
+function toAlbumDetail(album: Album, viewerId?: string, shareToken?: string): AlbumDetail {
+	const listed = loadListedPhotos(getDatabase(), album.photoIds);
+	const photos = album.photoIds.flatMap((id) => {
+		const photo = listed.get(id);
+		if (!photo) return [];
+
+		const visible = shareToken
+			? photo.userId === album.userId || canViewPhoto(photo)
+			: canViewPhoto(photo, viewerId);
+		return visible ? [toPhotoView(photo, viewerId, shareToken)] : [];
+	});
+	const cover = photos.find((p) => p.id === album.coverPhotoId) ?? photos[0] ?? null;
+
+	return { ...album, photoIds: photos.map((p) => p.id), cover, photos };
+}
+
+function toAlbumSummary(album: Album, viewerId?: string): AlbumSummary {
+	const { photos: _photos, ...summary } = toAlbumDetail(album, viewerId);
+	return summary;
+}
+
+/**
+ * Albums, newest first, optionally only those created by one user
+ */
+export async function getAlbums(userId?: string, viewerId?: string): Promise<AlbumSummary[]> {
+	await initialize();
+
+	const albums = await getIndex<Album>('photo', ALBUMS_INDEX_BLOB);
+
+	return albums
+		.filter((album) => !userId || album.userId === userId)
+		.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+		.map((album) => toAlbumSummary(album, viewerId));
+}
+
+export async function getAlbumById(id: string, viewerId?: string): Promise<AlbumDetail | undefined> {
+	await initialize();
+
+	const albums = await getIndex<Album>('photo', ALBUMS_INDEX_BLOB);
+	const album = albums.find((a) => a.id === id);
+
+	return album ? toAlbumDetail(album, viewerId) : undefined;
+}
+
+/**
+ * An album as seen through one of its share links (see sharing.ts)
+ */
+export async function getSharedAlbum(id: string, shareToken: string): Promise<AlbumDetail | undefined> {
+	await initialize();
+
+	const albums = await getIndex<Album>('photo', ALBUMS_INDEX_BLOB);
+	const album = albums.find((a) => a.id === id);
+
+	return album ? toAlbumDetail(album, undefined, shareToken) : undefined;
+}
+
+export async function createAlbum(
+	userId: string,
+	username: string,
+	title: string,
+	description?: string
+): Promise<AlbumDetail> {
+	await initialize();
+
+	const { result } = await updateIndex<Album, Album>('photo', ALBUMS_INDEX_BLOB, (albums) => {
+		// Derive the ID from the committed list so concurrent creates can't collide
+		const id = String(Math.max(0, ...albums.map((a) => parseInt(a.id) || 0)) + 1);
+		const now = new Date().toISOString();
+		const album: Album = {
+			id,
+			userId,
+			username,
+			title,
+			description,
+			photoIds: [],
+			createdAt: now,
+			updatedAt: now
+		};
+
+		albums.push(album);
+		return album;
+	});
+
+	return toAlbumDetail(result, userId);
+}
+
+/**
+ * Apply a change to one of the user's albums. `change` returns false to reject it
+ * without writing. Returns null if the album doesn't exist or isn't theirs.
+ */
+async function mutateAlbum(
+	id: string,
+	userId: string,
+	change: (album: Album) => boolean
+): Promise<AlbumDetail | null> {
+	await initialize();
+
+	const { result } = await updateIndex<Album, Album | null>('photo', ALBUMS_INDEX_BLOB, (albums) => {
+		const album = albums.find((a) => a.id === id);
+		if (!album || album.userId !== userId || !change(album)) {
+			return null;
+		}
+
+		album.updatedAt = new Date().toISOString();
+		return album;
+	});
+
+	return result ? toAlbumDetail(result, userId) : null;
+}
+
+/**
+ * Put the photos listed in `order` into that order, in the slots they already hold.
+ * Photos left out (in the trash, or no longer visible to the owner) stay where they
+ * are, so they are back in place if they return. Returns false unless `order` lists
+ * every photo the owner can see, each once, and nothing else.
+ */
+function reorderAlbum(album: Album, order: string[], userId: string): boolean {
+	const listed = new Set(order);
+	const isReorder =
+		listed.size === order.length &&
+		order.every((photoId) => album.photoIds.includes(photoId)) &&
+		toAlbumDetail(album, userId).photoIds.every((photoId) => listed.has(photoId));
+	if (!isReorder) return false;
+
+	let next = 0;
+	album.photoIds = album.photoIds.map((photoId) => (listed.has(photoId) ? order[next++] : photoId));
+	return true;
+}
+
+/**
+ * Update album details or reorder it. `photoIds` must list the album's photos the
+ * owner can see in their new order. Returns null if not found, not owned or the
+ * update is invalid.
+ */
+export async function updateAlbum(
+	id: string,
+	userId: string,
+	updates: AlbumUpdate
+): Promise<AlbumDetail | null> {
+	return mutateAlbum(id, userId, (album) => {
+		if (updates.photoIds && !reorderAlbum(album, updates.photoIds, userId)) {
+			return false;
+		}
+
+		if (updates.coverPhotoId !== undefined) {
+			if (updates.coverPhotoId === null) {
+				delete album.coverPhotoId;
+			} else if (album.photoIds.includes(updates.coverPhotoId)) {
+				album.coverPhotoId = updates.coverPhotoId;
+			} else {
+				return false;
+			}
+		}
+
+		if (updates.title !== undefined) album.title = updates.title;
+		if (updates.description !== undefined) album.description = updates.description;
+		return true;
+	});
+}
+
+/**
+ * Append a photo to an album; adding one that's already there is a no-op
+ */
+export async function addPhotoToAlbum(
+	id: string,
+	userId: string,
+	photoId: string
+): Promise<AlbumDetail | null> {
+	await initialize();
+	const photo = loadPhoto(getDatabase(), photoId);
+	if (!photo || !isListed(photo) || !canViewPhoto(photo, userId)) return null;
+
+	return mutateAlbum(id, userId, (album) => {
+		if (!album.photoIds.includes(photoId)) {
+			album.photoIds.push(photoId);
+		}
+		return true;
+	});
+}
+
+export async function removePhotoFromAlbum(
+	id: string,
+	userId: string,
+	photoId: string
+): Promise<AlbumDetail | null> {
+	return mutateAlbum(id, userId, (album) => {
+		album.photoIds = album.photoIds.filter((p) => p !== photoId);
+		if (album.coverPhotoId === photoId) {
+			delete album.coverPhotoId;
+		}
+		return true;
+	});
+}
+
+export async function deleteAlbum(id: string, userId: string): Promise<boolean> {
+	const { result } = await updateIndex<Album, boolean>('photo', ALBUMS_INDEX_BLOB, (albums) => {
+		const index = albums.findIndex((a) => a.id === id && a.userId === userId);
+		if (index === -1) {
+			return false;
+		}
+
+		albums.splice(index, 1);
+		return true;
+	});
+
+	return result;
+}
+
+/**
+ * Find a user by ID or (ignoring case) username
+ */
+function findStoredUser(db: Database, by: 'id' | 'username', value: string): StoredUser | undefined {
+	const row = db.prepare(`SELECT * FROM users WHERE ${by} = ?`).get(value) as UserRow | undefined;
+	return row && toStoredUser(row);
+}
+
+/**
+ * Strip private fields before a user leaves the server
+ */
+export function toPublicUser(user: StoredUser): User {
+	return {
+		id: user.id,
+		username: user.username,
+		avatar: user.avatar,
+		bio: user.bio,
+		createdAt: user.createdAt,
+		role: user.role ?? 'member',
+		bannedAt: user.bannedAt
+	};
+}
+
+export async function getUserById(id: string): Promise<User | undefined> {
+	await initialize();
+	const user = findStoredUser(getDatabase(), 'id', id);
+	return user ? toPublicUser(user) : undefined;
+}
+
+export async function getUserByUsername(username: string): Promise<User | undefined> {
+	await initialize();
+	const user = findStoredUser(getDatabase(), 'username', username);
+	return user ? toPublicUser(user) : undefined;
+}
+
+/**
+ * A user's public profile with how many photos (that the viewer can see) and
+ * comments they have posted
+ */
+export async function getUserProfile(id: string, viewerId?: string): Promise<UserProfile | undefined> {
+	const user = await getUserById(id);
+	if (!user) return undefined;
+
+	const db = getDatabase();
+	const count = (sql: string, params: Record<string, string | null>) =>
+		db.prepare(sql).pluck().get(params) as number;
+
+	const profile: UserProfile = {
+		...user,
+		photoCount: count(`SELECT COUNT(*) FROM photos p WHERE p.user_id = @id AND ${LISTED} AND ${LISTABLE}`, {
+			id,
+			viewerId: viewerId ?? null
+		}),
+		commentCount: count(
+			`SELECT COUNT(*) FROM comments c JOIN photos p ON p.id = c.photo_id
+			WHERE c.user_id = @id AND c.deleted_at IS NULL AND c.hidden_at IS NULL AND ${LISTED} AND ${VIEWABLE}`,
+			{ id, viewerId: viewerId ?? null }
+		),
+		followerCount: count('SELECT COUNT(*) FROM follows WHERE user_id = @id', { id }),
+		followingCount: count('SELECT COUNT(*) FROM follows WHERE follower_id = @id', { id })
+	};
+	if (viewerId && viewerId !== id) {
+		profile.isFollowing = isFollowing(viewerId, id);
+	}
+
+	return profile;
+}
+
+/**
+ * Whether one user follows another
+ */
+function isFollowing(followerId: string, userId: string): boolean {
+	return !!getDatabase()
+		.prepare('SELECT 1 FROM follows WHERE follower_id = ? AND user_id = ?')
+		.get(followerId, userId);
+}
+
+/**
+ * Follow or unfollow a user. Following someone twice, or unfollowing someone you
+ * don't follow, changes nothing. Returns false if the user to follow doesn't exist.
+ */
+export async function setFollowing(followerId: string, userId: string, follow: boolean): Promise<boolean> {
+	await initialize();
+
+	return transact((db) => {
+		if (!findStoredUser(db, 'id', followerId) || !findStoredUser(db, 'id', userId)) return false;
+
+		if (follow) {
+			// Keeps the original date when they already follow them
+			db.prepare('INSERT OR IGNORE INTO follows (follower_id, user_id, followed_at) VALUES (?, ?, ?)').run(
+				followerId,
+				userId,
+				new Date().toISOString()
+			);
+		} else {
+			db.prepare('DELETE FROM follows WHERE follower_id = ? AND user_id = ?').run(followerId, userId);
+		}
+		return true;
+	});
+}
+
+/**
+ * The users following a user, most recent first. Undefined if the user doesn't exist.
+ */
+export async function getFollowers(userId: string): Promise<User[] | undefined> {
+	await initialize();
+
+	const db = getDatabase();
+	if (!findStoredUser(db, 'id', userId)) return undefined;
+
+	const rows = db
+		.prepare(
+			`SELECT u.* FROM follows f JOIN users u ON u.id = f.follower_id
+			WHERE f.user_id = ? ORDER BY f.followed_at DESC, f.rowid DESC`
+		)
+		.all(userId) as UserRow[];
+	return rows.map((row) => toPublicUser(toStoredUser(row)));
+}
+
+/**
+ * The users a user follows, most recent first. Undefined if the user doesn't exist.
+ */
+export async function getFollowing(userId: string): Promise<User[] | undefined> {
+	await initialize();
+
+	const db = getDatabase();
+	if (!findStoredUser(db, 'id', userId)) return undefined;
+
+	const rows = db
+		.prepare(
+			`SELECT u.* FROM follows f JOIN users u ON u.id = f.user_id
+			WHERE f.follower_id = ? ORDER BY f.followed_at DESC, f.rowid DESC`
+		)
+		.all(userId) as UserRow[];
+	return rows.map((row) => toPublicUser(toStoredUser(row)));
+}
+
+/**
+ * Apply a change to one stored user. Returns null if the user doesn't exist.
+ */
+async function updateStoredUser(id: string, change: (user: StoredUser) => void): Promise<User | null> {
+	await initialize();
+
+	const user = transact((db) => {
+		const user = findStoredUser(db, 'id', id);
+		if (!user) return null;
+
+		change(user);
+		saveUser(db, user);
+		return user;
+	});
+
+	return user ? toPublicUser(user) : null;
+}
+
+/**
+ * Change a user's editable profile fields. Returns null if the user doesn't exist.
+ */
+export async function updateUserProfile(id: string, updates: ProfileUpdate): Promise<User | null> {
+	return updateStoredUser(id, (user) => {
+		if (updates.avatar !== undefined) user.avatar = updates.avatar;
+		if (updates.bio !== undefined) user.bio = updates.bio;
+	});
+}
+
+/**
+ * Change a user's stored role. Returns null if the user doesn't exist.
+ */
+export async function setUserRole(id: string, role: UserRole): Promise<User | null> {
+	return updateStoredUser(id, (user) => {
+		if (role === 'member') {
+			delete user.role;
+		} else {
+			user.role = role;
+		}
+	});
+}
+
+/**
+ * Ban a user (`bannedBy` is the moderator) or lift their ban with null.
+ * Returns null if the user doesn't exist.
+ */
+export async function setUserBan(id: string, bannedBy: string | null): Promise<User | null> {
+	return updateStoredUser(id, (user) => {
+		if (bannedBy) {
+			user.bannedAt = new Date().toISOString();
+			user.bannedBy = bannedBy;
+		} else {
+			delete user.bannedAt;
+			delete user.bannedBy;
+		}
+	});
+}
+
+/**
+ * Register a new user. Returns null if the username is taken.
+ */
+export async function createUser(username: string, password: string): Promise<User | null> {
+	await initialize();
+
+	const passwordHash = await hashPassword(password);
+
+	const user = transact((db) => {
+		if (findStoredUser(db, 'username', username)) {
+			return null;
+		}
+
+		const maxId = db.prepare('SELECT MAX(CAST(id AS INTEGER)) FROM users').pluck().get() as number | null;
+		const id = String((maxId ?? 0) + 1);
+		const user: StoredUser = {
+			id,
+			username,
+			avatar: AVATARS[parseInt(id) % AVATARS.length],
+			createdAt: new Date().toISOString(),
+			passwordHash
+		};
+
+		saveUser(db, user);
+		return user;
+	});
+
+	return user ? toPublicUser(user) : null;
+}
+
+/**
+ * Check a username/password pair. Returns the user on success.
+ */
+export async function authenticateUser(username: string, password: string): Promise<User | null> {
+	await initialize();
+
+	const user = findStoredUser(getDatabase(), 'username', username);
+	if (!user || !user.passwordHash) {
+		return null;
+	}
+
+	return (await verifyPassword(password, user.passwordHash)) ? toPublicUser(user) : null;
+}
+
+/**
+ * The session version a user's session cookies must carry (see auth.ts), or
+ * undefined if the user doesn't exist
+ */
+export async function getSessionVersion(userId: string): Promise<number | undefined> {
+	await initialize();
+	return getDatabase().prepare('SELECT session_version FROM users WHERE id = ?').pluck().get(userId) as
+		| number
+		| undefined;
+}
+
+/**
+ * Revoke every session cookie issued to a user so far, on all their devices
+ */
+export async function endSessions(userId: string): Promise<void> {
+	await initialize();
+	getDatabase().prepare('UPDATE users SET session_version = session_version + 1 WHERE id = ?').run(userId);
 }
@@ -0,0 +1,48 @@
+/**
+ * Server Events
+ * In-process events raised by db.ts after a change has been saved, so features
+ * like notifications can react without db.ts knowing about them
+ */
+
+import { EventEmitter } from 'node:events';
+import type { StoredComment, StoredPhoto } from './db';
+
+export interface PhotoEvent {
+	// The photo as saved
+	photo: StoredPhoto;
+	// For updates, the photo as it was before
+	previous?: StoredPhoto;
+}
+
+export interface CommentEvent {
+	// The photo as saved, including the comment
+	photo: StoredPhoto;
+	comment: StoredComment;
+}
+
+export interface ServerEvents {
+	'photo:created': [PhotoEvent];
+	'photo:updated': [PhotoEvent];
+	'photo:deleted': [PhotoEvent];
+	'photo:restored': [PhotoEvent];
+	'comment:added': [CommentEvent];
+	'comment:updated': [CommentEvent];
+	'comment:deleted': [CommentEvent];
+	'comment:restored': [CommentEvent];
+}
+
+export const serverEvents = new EventEmitter<ServerEvents>();
+
+/**
+ * Subscribe an async listener; failures are logged rather than left unhandled,
+ * since the change that raised the event has already been saved
+ */
+export function onServerEvent<K extends keyof ServerEvents>(
+	name: K,
+	listener: (...args: ServerEvents[K]) => Promise<void>
+): void {
+	// EventEmitter's typings can't relate a generic event name to its listener
+	serverEvents.on(name, ((...args: ServerEvents[K]) => {
+		listener(...args).catch((error) => console.error(`Failed to handle ${name}:`, error));
+	}) as never);
+}
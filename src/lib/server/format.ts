@@ -0,0 +1,164 @@
+/**
+ * Comment Formatting
+ * Renders the small markdown subset allowed in comments to HTML that is safe to
+ * insert into the page: **bold**, *italic* / _italic_, `code`, [links](https://…),
+ * bare URLs, line breaks and @mentions
+ */
+
+import type { CommentMention } from '$lib/types';
+import { escapeHtml } from '$lib/utils';
+
+// Same rules as registration, so anything that looks like a mention could be a user
+const MENTION_PATTERN = /(^|[^\w@])@([a-zA-Z0-9_]{3,20})(?!\w)/g;
+
+const CODE_PATTERN = /`([^`\n]+)`/g;
+const LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s()<>]+)\)/g;
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>]+[^\s<>.,;:!?'")\]]/g;
+
+// Formatted fragments are swapped out for markers so later rules can't reach inside them
+const MARKER = '\u0000';
+const MARKER_PATTERN = /\u0000(\d+)\u0000/g;
+
+// Everything the formatter can produce; anything else is escaped by the sanitizer
+const ALLOWED_TAGS: Record<string, string[]> = {
+	strong: [],
+	em: [],
+	code: [],
+	br: [],
+	a: ['href', 'class', 'rel', 'target']
+};
+
+const VOID_TAGS = new Set(['br']);
+
+/**
+ * Usernames mentioned in a comment, lowercased and without duplicates
+ */
+export function extractMentions(content: string): string[] {
+	// Mentions inside code and links aren't rendered, so they don't count either
+	const text = content.replace(CODE_PATTERN, '').replace(LINK_PATTERN, '').replace(URL_PATTERN, '');
+	const names = [...text.matchAll(MENTION_PATTERN)].map((match) => match[2].toLowerCase());
+	return [...new Set(names)];
+}
+
+function renderLink(href: string, labelHtml: string): string {
+	return `<a href="${escapeHtml(href)}" rel="nofollow noopener noreferrer" target="_blank">${labelHtml}</a>`;
+}
+
+/**
+ * Whether the emphasis tags in some HTML close in the order they opened. Emphasis that
+ * would overlap another is left as plain asterisks rather than mis-nested.
+ */
+function isBalanced(html: string): boolean {
+	const open: string[] = [];
+	for (const [, closing, name] of html.matchAll(/<(\/?)(strong|em)>/g)) {
+		if (!closing) open.push(name);
+		else if (open.pop() !== name) return false;
+	}
+	return open.length === 0;
+}
+
+/**
+ * Wrap text in an emphasis tag, or null if the tags already in it don't balance
+ */
+function emphasize(tag: 'strong' | 'em', inner: string): string | null {
+	return isBalanced(inner) ? `<${tag}>${inner}</${tag}>` : null;
+}
+
+/**
+ * Render a comment to sanitized HTML. Only @mentions of the given (existing) users
+ * become profile links; other @words are left as text.
+ */
+export function formatComment(content: string, mentions: CommentMention[]): string {
+	const fragments: string[] = [];
+	const hold = (html: string) => `${MARKER}${fragments.push(html) - 1}${MARKER}`;
+	const restore = (html: string) =>
+		html.replace(MARKER_PATTERN, (_, index: string) => fragments[Number(index)]);
+
+	const mentioned = new Map(mentions.map((m) => [m.username.toLowerCase(), m.username]));
+
+	const text = content
+		.replaceAll(MARKER, '')
+		.replace(/\r\n?/g, '\n')
+		.replace(CODE_PATTERN, (_, code: string) => hold(`<code>${escapeHtml(code)}</code>`))
+		// Labels may hold code spans, already swapped for markers
+		.replace(LINK_PATTERN, (_, label: string, href: string) =>
+			hold(renderLink(href, restore(escapeHtml(label))))
+		)
+		.replace(URL_PATTERN, (url) => hold(renderLink(url, escapeHtml(url))))
+		.replace(MENTION_PATTERN, (match, before: string, name: string) => {
+			const username = mentioned.get(name.toLowerCase());
+			if (!username) return match;
+			return (
+				before +
+				hold(`<a href="/users/${encodeURIComponent(username)}" class="mention">@${escapeHtml(name)}</a>`)
+			);
+		});
+
+	const html = restore(
+		escapeHtml(text)
+			.replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, (match, inner: string) => emphasize('strong', inner) ?? match)
+			.replace(/\*(?=\S)(.+?)(?<=\S)\*/g, (match, inner: string) => emphasize('em', inner) ?? match)
+			.replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, (match, before: string, inner: string) => {
+				const em = emphasize('em', inner);
+				return em ? before + em : match;
+			})
+			.replace(/\n/g, '<br>')
+	);
+
+	return sanitizeHtml(html);
+}
+
+function isSafeHref(href: string): boolean {
+	return /^https?:\/\//i.test(href) || /^\/(?!\/)/.test(href);
+}
+
+/**
+ * Keep only whitelisted tags and attributes, escaping everything else as text and
+ * closing any tags left open so nothing leaks into the surrounding page
+ */
+export function sanitizeHtml(html: string): string {
+	const open: string[] = [];
+	let output = '';
+
+	for (const [token] of html.matchAll(/<[^>]*>?|[^<]+/g)) {
+		if (!token.startsWith('<')) {
+			// Text is already escaped; only bare ampersands and stray brackets remain
+			output += token.replace(/&(?!(?:[a-z]+|#\d+|#x[\da-f]+);)/gi, '&amp;').replace(/>/g, '&gt;');
+			continue;
+		}
+
+		const tag = token.match(/^<(\/?)([a-z]+)((?:\s+[a-z-]+="[^"<>]*")*)\s*\/?>$/i);
+		const name = tag?.[2].toLowerCase();
+		const allowedAttributes = name ? ALLOWED_TAGS[name] : undefined;
+
+		if (!tag || !name || !allowedAttributes) {
+			output += escapeHtml(token);
+			continue;
+		}
+
+		if (tag[1]) {
+			// Drop closing tags that don't match the innermost open tag
+			if (open[open.length - 1] === name) {
+				open.pop();
+				output += `</${name}>`;
+			}
+			continue;
+		}
+
+		const attributes = [...tag[3].matchAll(/([a-z-]+)="([^"]*)"/gi)];
+		const safe = attributes.every(
+			([, attribute, value]) =>
+				allowedAttributes.includes(attribute.toLowerCase()) &&
+				(attribute.toLowerCase() !== 'href' || isSafeHref(value))
+		);
+		if (!safe || (name === 'a' && !attributes.some(([, attribute]) => attribute === 'href'))) {
+			output += escapeHtml(token);
+			continue;
+		}
+
+		output += `<${name}${attributes.map(([, attribute, value]) => ` ${attribute.toLowerCase()}="${value}"`).join('')}>`;
+		if (!VOID_TAGS.has(name)) open.push(name);
+	}
+
+	return output + open.reverse().map((name) => `</${name}>`).join('');
+}
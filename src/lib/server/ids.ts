@@ -0,0 +1,53 @@
+/**
+ * IDs
+ * Photos and comments get UUIDv7 IDs: unique without any coordination between
+ * instances, and starting with their creation time, so they sort by age. Blob names
+ * are built from them, so no upload can overwrite another's images.
+ */
+
+import { randomBytes } from 'node:crypto';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let lastTime = -1;
+let sequence = 0;
+
+/**
+ * A new UUIDv7 for something created at `time` (ms since the epoch). IDs made in the
+ * same millisecond by this process still sort in the order they were made.
+ */
+export function newId(time = Date.now()): string {
+	const bytes = randomBytes(16);
+
+	// The 12 bits after the version count up within a millisecond, from a random start
+	// low enough to leave room for counting
+	if (time === lastTime && sequence < 0xfff) {
+		sequence++;
+	} else {
+		lastTime = time;
+		sequence = bytes.readUInt16BE(6) & 0x7ff;
+	}
+
+	bytes.writeUIntBE(time, 0, 6);
+	bytes[6] = 0x70 | (sequence >> 8);
+	bytes[7] = sequence & 0xff;
+	bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+	const hex = bytes.toString('hex');
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * When an ID from newId was made, or null for IDs that aren't UUIDv7
+ */
+export function getIdTime(id: string): number | null {
+	if (!UUID_PATTERN.test(id) || id[14] !== '7') return null;
+	return parseInt(id.replace(/-/g, '').slice(0, 12), 16);
+}
+
+/**
+ * Whether an ID is one of the numbers photos and comments had before they got UUIDs
+ */
+export function isLegacyId(id: string): boolean {
+	return /^\d+$/.test(id);
+}
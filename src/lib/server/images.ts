@@ -0,0 +1,193 @@
+/**
+ * Image Processing
+ * Sanitizes uploaded photos, extracts their EXIF metadata and generates resized variants
+ */
+
+import sharp, { type Sharp } from 'sharp';
+import exifr from 'exifr';
+import type { Readable } from 'node:stream';
+import type { PhotoLocation, PhotoMetadata, PhotoVariantName } from '$lib/types';
+
+export interface VariantSpec {
+	name: PhotoVariantName;
+	width: number;
+	quality: number;
+}
+
+// Widths are upper bounds; images are never enlarged
+export const VARIANT_SPECS: VariantSpec[] = [
+	{ name: 'thumbnail', width: 400, quality: 75 },
+	{ name: 'medium', width: 1024, quality: 80 },
+	{ name: 'full', width: 2048, quality: 85 }
+];
+
+export interface GeneratedVariant {
+	name: PhotoVariantName;
+	format: 'jpeg' | 'png' | 'webp';
+	contentType: string;
+	width: number;
+	height: number;
+	data: Buffer;
+}
+
+export interface ProcessedImage {
+	width: number;
+	height: number;
+	metadata: PhotoMetadata;
+	// Only present when the uploader opted in to keeping location data
+	location: PhotoLocation | null;
+	variants: GeneratedVariant[];
+}
+
+export interface ProcessOptions {
+	contentType: string;
+	keepLocation: boolean;
+}
+
+export interface ImageProcessing {
+	/**
+	 * Full-size copy to store as the original: upright, with EXIF removed unless location
+	 * was kept. Null for GIFs, which carry no EXIF and are stored as uploaded.
+	 */
+	original: Readable | null;
+	result: Promise<ProcessedImage>;
+}
+
+/**
+ * Read the EXIF block sharp exposes ("Exif\0\0" followed by a TIFF structure)
+ */
+async function readExif(exif: Buffer | undefined): Promise<Record<string, unknown>> {
+	if (!exif || exif.length <= 6) return {};
+
+	try {
+		// Raw values keep DateTimeOriginal as the camera's wall-clock string
+		return (await exifr.parse(exif.subarray(6), { gps: true, reviveValues: false })) ?? {};
+	} catch (error) {
+		console.error('Failed to parse EXIF:', error);
+		return {};
+	}
+}
+
+const text = (value: unknown) =>
+	typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const number = (value: unknown) =>
+	typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+// Unlike other readings, coordinates can be zero or negative
+const coordinate = (value: unknown) =>
+	typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+function toMetadata(exif: Record<string, unknown>): PhotoMetadata {
+	// "2024:05:01 10:20:30" -> "2024-05-01T10:20:30" (no timezone, as recorded)
+	const takenAt = text(exif.DateTimeOriginal ?? exif.CreateDate)
+		?.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T');
+
+	return {
+		cameraMake: text(exif.Make),
+		cameraModel: text(exif.Model),
+		lens: text(exif.LensModel),
+		exposureTime: number(exif.ExposureTime),
+		fNumber: number(exif.FNumber),
+		iso: number(exif.ISO),
+		focalLength: number(exif.FocalLength),
+		takenAt: takenAt && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(takenAt) ? takenAt : undefined
+	};
+}
+
+function encodeOriginal(pipeline: Sharp, options: ProcessOptions): Sharp {
+	// autoOrient bakes the rotation into the pixels and resets the Orientation tag
+	let output = pipeline.autoOrient().keepIccProfile();
+	if (options.keepLocation) {
+		output = output.keepExif();
+	}
+
+	switch (options.contentType) {
+		case 'image/png':
+			return output.png();
+		case 'image/webp':
+			return output.webp({ quality: 90 });
+		default:
+			return output.jpeg({ quality: 92 });
+	}
+}
+
+/**
+ * Process an uploaded image stream: produce the sanitized original, read its EXIF and
+ * resize it into every variant size, each as WebP plus a JPEG (or PNG when the source
+ * has transparency) fallback for browsers without WebP support.
+ *
+ * The original is returned as a stream so it can be written to storage while the
+ * variants are still being generated; the input stream is consumed in full.
+ */
+export function processImage(input: Readable, options: ProcessOptions): ImageProcessing {
+	const source = sharp();
+
+	// Clones share the source's input, so set up every pipeline before data flows
+	const original = options.contentType === 'image/gif' ? null : encodeOriginal(source.clone(), options);
+	// Its reader sees the error; this covers a failure before the reader has started
+	original?.on('error', () => {});
+	const metadataPromise = source.clone().metadata();
+	const pipelines = VARIANT_SPECS.map((spec) => {
+		const resized = source
+			.clone()
+			.autoOrient()
+			.resize({ width: spec.width, withoutEnlargement: true });
+		return { spec, webp: resized.clone(), fallback: resized.clone() };
+	});
+
+	// pipe() doesn't forward errors, so a failed upload must reject here explicitly
+	const inputFailed = new Promise<never>((_, reject) => {
+		input.on('error', (error) => {
+			original?.destroy(error);
+			source.destroy();
+			reject(error);
+		});
+	});
+	input.pipe(source);
+
+	const result = (async (): Promise<ProcessedImage> => {
+		const metadata = await Promise.race([metadataPromise, inputFailed]);
+		const fallbackFormat = metadata.hasAlpha ? 'png' : 'jpeg';
+		const exif = await readExif(metadata.exif);
+
+		const outputs = await Promise.all(
+			pipelines.flatMap(({ spec, webp, fallback }) => [
+				webp
+					.webp({ quality: spec.quality })
+					.toBuffer({ resolveWithObject: true })
+					.then((output) => ({ spec, ...output })),
+				(fallbackFormat === 'png'
+					? fallback.png()
+					: fallback.jpeg({ quality: spec.quality, mozjpeg: true })
+				)
+					.toBuffer({ resolveWithObject: true })
+					.then((output) => ({ spec, ...output }))
+			])
+		);
+
+		const latitude = coordinate(exif.latitude);
+		const longitude = coordinate(exif.longitude);
+
+		return {
+			width: metadata.autoOrient.width,
+			height: metadata.autoOrient.height,
+			metadata: toMetadata(exif),
+			location:
+				options.keepLocation && latitude !== undefined && longitude !== undefined
+					? { latitude, longitude }
+					: null,
+			variants: outputs.map(({ spec, data, info }) => {
+				const format = info.format as GeneratedVariant['format'];
+				return {
+					name: spec.name,
+					format,
+					contentType: `image/${format}`,
+					width: info.width,
+					height: info.height,
+					data
+				};
+			})
+		};
+	})();
+
+	return { original, result };
+}
@@ -0,0 +1,91 @@
+/**
+ * JSON Index Import
+ * Earlier versions kept users, photos and comments in JSON index blobs in storage.
+ * A new database is filled from them once (see database.ts); the blobs are left in
+ * place, unused, in case the import needs to be run again.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { PhotoVariant } from '$lib/types';
+import { getIndex, getBlobNameFromUrl, PHOTOS_INDEX_BLOB, USERS_INDEX_BLOB } from './storage';
+import { insertPhoto, saveUser } from './records';
+import type { StoredPhoto, StoredUser, StoredVariant } from './db';
+
+/**
+ * A user as kept in the users index, with who they follow
+ */
+interface IndexedUser extends StoredUser {
+	// Oldest first
+	following?: { userId: string; followedAt: string }[];
+}
+
+// The original demo users own existing photos, so their IDs stay reserved
+const legacyUsers: StoredUser[] = [
+	{ id: '1', username: 'alice', avatar: '👩', createdAt: new Date(0).toISOString(), passwordHash: null },
+	{ id: '2', username: 'bob', avatar: '👨', createdAt: new Date(0).toISOString(), passwordHash: null },
+	{ id: '3', username: 'charlie', avatar: '🧑', createdAt: new Date(0).toISOString(), passwordHash: null }
+];
+
+export interface ImportReport {
+	users: number;
+	photos: number;
+	comments: number;
+}
+
+/**
+ * Replace the full storage URLs (and SAS tokens) that the oldest versions kept in
+ * the photos index with the blob names they point to
+ */
+function toBlobNames(photo: StoredPhoto): void {
+	const blobName = photo.imageUrl ? getBlobNameFromUrl(photo.imageUrl) : null;
+	if (blobName) {
+		photo.blobName = blobName;
+		delete photo.imageUrl;
+	}
+
+	for (const variant of (photo.variants ?? []) as (StoredVariant & Partial<Pick<PhotoVariant, 'url'>>)[]) {
+		if (variant.url === undefined) continue;
+		variant.blobName = getBlobNameFromUrl(variant.url) ?? variant.blobName;
+		delete variant.url;
+	}
+}
+
+/**
+ * Copy the users and photos indexes into an empty database, in one transaction.
+ * With no users index, the demo users are added instead.
+ */
+export async function importJsonIndexes(db: Database): Promise<ImportReport> {
+	// Errors propagate: starting empty over an unreadable index would lose real accounts
+	const users = await getIndex<IndexedUser>('comment', USERS_INDEX_BLOB);
+	const photos = await getIndex<StoredPhoto>('photo', PHOTOS_INDEX_BLOB);
+
+	const accounts: IndexedUser[] = users.length > 0 ? users : legacyUsers;
+
+	const importAll = db.transaction(() => {
+		for (const { following: _following, ...user } of accounts) {
+			saveUser(db, user);
+		}
+
+		const follow = db.prepare(
+			'INSERT OR IGNORE INTO follows (follower_id, user_id, followed_at) VALUES (?, ?, ?)'
+		);
+		for (const user of users) {
+			for (const { userId, followedAt } of user.following ?? []) {
+				if (users.some((u) => u.id === userId)) follow.run(user.id, userId, followedAt);
+			}
+		}
+
+		for (const photo of photos) {
+			toBlobNames(photo);
+			photo.comments = (photo.comments ?? []).map((comment) => ({ ...comment, photoId: photo.id }));
+			insertPhoto(db, photo);
+		}
+	});
+	importAll();
+
+	return {
+		users: users.length,
+		photos: photos.length,
+		comments: photos.reduce((total, photo) => total + photo.comments.length, 0)
+	};
+}
@@ -0,0 +1,150 @@
+/**
+ * Legacy IDs
+ * Photos and comments once had numeric IDs counted up by each instance, which could
+ * be handed out twice. Any still in the database are swapped for UUIDs (see ids.ts)
+ * when it is opened, and the indexes in storage that refer to them are updated.
+ * The old IDs are kept in legacy_ids so their URLs can be redirected.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { Album, ModerationLogEntry, Notification, Report, ShareLink } from '$lib/types';
+import {
+	updateIndex,
+	ALBUMS_INDEX_BLOB,
+	MODERATION_LOG_BLOB,
+	NOTIFICATIONS_INDEX_BLOB,
+	REPORTS_INDEX_BLOB,
+	SHARE_LINKS_INDEX_BLOB
+} from './storage';
+import { newId } from './ids';
+
+export type LegacyIdType = 'photo' | 'comment';
+
+interface LegacyIdRow {
+	type: LegacyIdType;
+	legacy_id: string;
+	id: string;
+}
+
+// Rows whose ID is all digits
+const NUMERIC_ID = "id NOT GLOB '*[^0-9]*'";
+
+/**
+ * Give photos and comments with numeric IDs a UUID made from their creation time,
+ * so they keep their place in feeds. Returns how many were changed.
+ */
+function replaceNumericIds(db: Database): number {
+	const photos = db.prepare(`SELECT id, created_at FROM photos WHERE ${NUMERIC_ID}`).all() as {
+		id: string;
+		created_at: string;
+	}[];
+	const comments = db.prepare(`SELECT id, created_at FROM comments WHERE ${NUMERIC_ID}`).all() as {
+		id: string;
+		created_at: string;
+	}[];
+	if (photos.length === 0 && comments.length === 0) return 0;
+
+	const idFor = (createdAt: string) => newId(Date.parse(createdAt) || Date.now());
+	const record = db.prepare('INSERT INTO legacy_ids (type, legacy_id, id) VALUES (?, ?, ?)');
+
+	db.transaction(() => {
+		// Comments and tags point at photos by ID; they are all updated before the commit
+		db.pragma('defer_foreign_keys = ON');
+
+		for (const photo of photos) {
+			const id = idFor(photo.created_at);
+			db.prepare('UPDATE photos SET id = ? WHERE id = ?').run(id, photo.id);
+			db.prepare('UPDATE comments SET photo_id = ? WHERE photo_id = ?').run(id, photo.id);
+			db.prepare('UPDATE photo_tags SET photo_id = ? WHERE photo_id = ?').run(id, photo.id);
+			db.prepare("UPDATE reactions SET target_id = ? WHERE target_type = 'photo' AND target_id = ?").run(
+				id,
+				photo.id
+			);
+			record.run('photo', photo.id, id);
+		}
+
+		for (const comment of comments) {
+			const id = idFor(comment.created_at);
+			db.prepare('UPDATE comments SET id = ? WHERE id = ?').run(id, comment.id);
+			db.prepare('UPDATE comments SET parent_id = ? WHERE parent_id = ?').run(id, comment.id);
+			db.prepare("UPDATE reactions SET target_id = ? WHERE target_type = 'comment' AND target_id = ?").run(
+				id,
+				comment.id
+			);
+			record.run('comment', comment.id, id);
+		}
+	})();
+
+	return photos.length + comments.length;
+}
+
+/**
+ * Point the albums, notifications, reports, moderation log and share links kept in
+ * storage at the new IDs. Running this again over updated indexes changes nothing.
+ */
+async function relinkIndexes(replaced: LegacyIdRow[]): Promise<void> {
+	const ids = new Map(replaced.map((row) => [`${row.type}:${row.legacy_id}`, row.id]));
+	const current = (type: string, id: string) => ids.get(`${type}:${id}`) ?? id;
+	const photo = (id: string) => current('photo', id);
+
+	await updateIndex<Album, void>('photo', ALBUMS_INDEX_BLOB, (albums) => {
+		for (const album of albums) {
+			album.photoIds = album.photoIds.map(photo);
+			if (album.coverPhotoId) album.coverPhotoId = photo(album.coverPhotoId);
+		}
+	});
+
+	await updateIndex<Notification, void>('comment', NOTIFICATIONS_INDEX_BLOB, (notifications) => {
+		for (const notification of notifications) {
+			notification.photoId = photo(notification.photoId);
+			notification.commentId = current('comment', notification.commentId);
+		}
+	});
+
+	await updateIndex<Report, void>('comment', REPORTS_INDEX_BLOB, (reports) => {
+		for (const report of reports) {
+			report.targetId = current(report.targetType, report.targetId);
+			report.photoId = photo(report.photoId);
+		}
+	});
+
+	await updateIndex<ModerationLogEntry, void>('comment', MODERATION_LOG_BLOB, (entries) => {
+		for (const entry of entries) {
+			entry.targetId = current(entry.targetType, entry.targetId);
+		}
+	});
+
+	await updateIndex<ShareLink, void>('comment', SHARE_LINKS_INDEX_BLOB, (links) => {
+		for (const link of links) {
+			link.targetId = current(link.targetType, link.targetId);
+		}
+	});
+}
+
+/**
+ * Replace any numeric photo and comment IDs, then update what refers to them in
+ * storage. If updating storage fails it is retried the next time the database opens.
+ */
+export async function upgradeLegacyIds(db: Database): Promise<void> {
+	const replaced = replaceNumericIds(db);
+	if (replaced > 0) {
+		console.log(`Gave ${replaced} photos and comments with numeric IDs new IDs`);
+	}
+
+	const pending = db
+		.prepare('SELECT type, legacy_id, id FROM legacy_ids WHERE relinked_at IS NULL')
+		.all() as LegacyIdRow[];
+	if (pending.length === 0) return;
+
+	await relinkIndexes(pending);
+	db.prepare('UPDATE legacy_ids SET relinked_at = ? WHERE relinked_at IS NULL').run(new Date().toISOString());
+}
+
+/**
+ * The ID a photo or comment has now, given the numeric ID it had before
+ */
+export function findCurrentId(db: Database, type: LegacyIdType, legacyId: string): string | undefined {
+	return db.prepare('SELECT id FROM legacy_ids WHERE type = ? AND legacy_id = ?').pluck().get(type, legacyId) as
+		| string
+		| undefined;
+}
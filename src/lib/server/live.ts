@@ -0,0 +1,139 @@
+/**
+ * Live Updates
+ * Broadcasts photo and comment changes to connected browsers as Server-Sent Events.
+ * Recent events are kept so a reconnecting browser can catch up from Last-Event-ID.
+ */
+
+import type { LiveEvent } from '$lib/types';
+import { serverEvents, type CommentEvent, type PhotoEvent } from './events';
+import { canListPhoto, toCommentView, toPhotoView } from './db';
+
+interface BufferedEvent {
+	sequence: number;
+	message: string;
+}
+
+// How many past events a reconnecting browser can replay
+const REPLAY_BUFFER_SIZE = 500;
+// Comment lines sent while idle so proxies don't close the connection
+const HEARTBEAT_INTERVAL_MS = 25_000;
+// How long browsers wait before reconnecting after a dropped connection
+const RETRY_MS = 3_000;
+
+// Event IDs are only meaningful to the process that issued them
+const instanceId = Date.now().toString(36);
+
+const buffer: BufferedEvent[] = [];
+const listeners = new Set<(event: BufferedEvent) => void>();
+let sequence = 0;
+let subscribed = false;
+
+function publish(event: LiveEvent) {
+	sequence++;
+	const buffered = {
+		sequence,
+		message: `id: ${instanceId}-${sequence}\ndata: ${JSON.stringify(event)}\n\n`
+	};
+
+	buffer.push(buffered);
+	if (buffer.length > REPLAY_BUFFER_SIZE) buffer.shift();
+
+	for (const listener of listeners) listener(buffered);
+}
+
+// Events go to every browser, so only photos that anyone may list are sent
+function publishPhoto(type: 'photo:created' | 'photo:updated') {
+	return ({ photo, previous }: PhotoEvent) => {
+		if (canListPhoto(photo)) {
+			publish({ type, photo: toPhotoView(photo) });
+		} else if (previous && canListPhoto(previous)) {
+			// No longer public; browsers check whether their viewer can still see it
+			publish({ type: 'photo:unlisted', photoId: photo.id });
+		}
+	};
+}
+
+function publishComment(type: 'comment:added' | 'comment:updated' | 'comment:deleted') {
+	return ({ photo, comment }: CommentEvent) => {
+		if (canListPhoto(photo)) {
+			publish({ type, photoId: photo.id, comment: toCommentView(comment) });
+		}
+	};
+}
+
+/**
+ * Start forwarding server events to browsers; safe to call more than once
+ */
+export function subscribeLiveUpdates(): void {
+	if (subscribed) return;
+	subscribed = true;
+
+	serverEvents.on('photo:created', publishPhoto('photo:created'));
+	serverEvents.on('photo:updated', publishPhoto('photo:updated'));
+	serverEvents.on('photo:deleted', ({ photo }) => publish({ type: 'photo:deleted', photoId: photo.id }));
+	// To everyone else, a restored photo or comment is simply back
+	serverEvents.on('photo:restored', publishPhoto('photo:created'));
+	serverEvents.on('comment:added', publishComment('comment:added'));
+	serverEvents.on('comment:updated', publishComment('comment:updated'));
+	serverEvents.on('comment:deleted', publishComment('comment:deleted'));
+	serverEvents.on('comment:restored', publishComment('comment:updated'));
+}
+
+/**
+ * Events missed since `lastEventId`, or null when they can't be replayed (another
+ * instance issued the ID, or it has fallen out of the buffer) and the browser
+ * should reload instead
+ */
+function getMissedEvents(lastEventId: string): BufferedEvent[] | null {
+	const [instance, value] = lastEventId.split('-');
+	const last = Number(value);
+
+	if (instance !== instanceId || !Number.isInteger(last) || last > sequence) return null;
+	if (last < sequence && (buffer[0]?.sequence ?? Infinity) > last + 1) return null;
+
+	return buffer.filter((event) => event.sequence > last);
+}
+
+/**
+ * An event stream for one browser, starting after `lastEventId` when given
+ */
+export function openEventStream(lastEventId: string | null, signal: AbortSignal): ReadableStream<string> {
+	let close = () => {};
+
+	return new ReadableStream<string>({
+		start(controller) {
+			const send = (event: BufferedEvent) => controller.enqueue(event.message);
+			const heartbeat = setInterval(() => controller.enqueue(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+			close = () => {
+				clearInterval(heartbeat);
+				listeners.delete(send);
+			};
+			signal.addEventListener('abort', () => {
+				close();
+				try {
+					controller.close();
+				} catch {
+					// Already closed by the runtime
+				}
+			});
+
+			controller.enqueue(`retry: ${RETRY_MS}\n\n`);
+
+			if (lastEventId) {
+				const missed = getMissedEvents(lastEventId);
+				if (missed) {
+					missed.forEach(send);
+				} else {
+					// Carries the current position so the browser resumes from here next time
+					controller.enqueue(`id: ${instanceId}-${sequence}\nevent: reset\ndata: {}\n\n`);
+				}
+			}
+
+			listeners.add(send);
+		},
+		cancel() {
+			close();
+		}
+	});
+}
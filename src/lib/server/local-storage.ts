@@ -0,0 +1,155 @@
+/**
+ * Local Filesystem Storage
+ * Stores blobs as files on disk so the app can run without Azure (development and CI)
+ */
+
+import { createHash } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, open, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+	BlobNotFoundError,
+	PreconditionFailedError,
+	getContentTypeFromBlobName,
+	type StorageBackend,
+	type StorageContainer
+} from './storage';
+
+function isNotFound(error: unknown): boolean {
+	return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+// Content hash stands in for Azure's ETag
+function computeETag(content: Uint8Array): string {
+	return `"${createHash('sha1').update(content).digest('hex')}"`;
+}
+
+/**
+ * Create a storage backend rooted at the given directory.
+ * Each container is a subdirectory, each blob a file.
+ */
+export function createLocalStorage(rootDir: string): StorageBackend {
+	const root = path.resolve(rootDir);
+
+	function blobPath(container: StorageContainer, blobName: string): string {
+		// Blob names are flat; refuse anything that could escape the container directory
+		if (!blobName || blobName !== path.basename(blobName) || blobName.startsWith('.')) {
+			throw new Error(`Invalid blob name: ${blobName}`);
+		}
+		return path.join(root, container, blobName);
+	}
+
+	async function readBlob(container: StorageContainer, blobName: string): Promise<Buffer> {
+		try {
+			return await readFile(blobPath(container, blobName));
+		} catch (error) {
+			if (isNotFound(error)) {
+				throw new BlobNotFoundError(blobName);
+			}
+			throw error;
+		}
+	}
+
+	const storage: StorageBackend = {
+		async putBlob(container, blobName, content, _contentType, conditions) {
+			const filePath = blobPath(container, blobName);
+
+			if (conditions?.ifMatch || conditions?.ifNoneMatch) {
+				const existing = await readBlob(container, blobName).catch((error) => {
+					if (error instanceof BlobNotFoundError) return null;
+					throw error;
+				});
+				if (conditions.ifNoneMatch && existing) {
+					throw new PreconditionFailedError(blobName);
+				}
+				if (conditions.ifMatch && (!existing || computeETag(existing) !== conditions.ifMatch)) {
+					throw new PreconditionFailedError(blobName);
+				}
+			}
+
+			const bytes =
+				typeof content === 'string' ? Buffer.from(content, 'utf-8') : new Uint8Array(content);
+
+			// Write to a temp file and rename so readers never see a partial blob
+			const tempPath = `${filePath}.${process.pid}.tmp`;
+			await mkdir(path.dirname(filePath), { recursive: true });
+			await writeFile(tempPath, bytes);
+			await rename(tempPath, filePath);
+
+			return computeETag(bytes);
+		},
+
+		async putBlobStream(container, blobName, stream) {
+			const filePath = blobPath(container, blobName);
+			const tempPath = `${filePath}.${process.pid}.tmp`;
+			let size = 0;
+
+			await mkdir(path.dirname(filePath), { recursive: true });
+			try {
+				await pipeline(
+					stream,
+					new Transform({
+						transform(chunk: Buffer, _encoding, callback) {
+							size += chunk.length;
+							callback(null, chunk);
+						}
+					}),
+					createWriteStream(tempPath)
+				);
+				await rename(tempPath, filePath);
+			} catch (error) {
+				await rm(tempPath, { force: true });
+				throw error;
+			}
+
+			return size;
+		},
+
+		async getBlob(container, blobName) {
+			const content = await readBlob(container, blobName);
+			return content.toString('utf-8');
+		},
+
+		async getBlobVersioned(container, blobName) {
+			try {
+				const content = await readBlob(container, blobName);
+				return { content: content.toString('utf-8'), etag: computeETag(content) };
+			} catch (error) {
+				if (error instanceof BlobNotFoundError) return null;
+				throw error;
+			}
+		},
+
+		async getBlobStream(container, blobName) {
+			const file = await open(blobPath(container, blobName)).catch((error) => {
+				if (isNotFound(error)) throw new BlobNotFoundError(blobName);
+				throw error;
+			});
+			const { size } = await file.stat();
+
+			return {
+				stream: Readable.toWeb(file.createReadStream()) as ReadableStream<Uint8Array>,
+				contentType: getContentTypeFromBlobName(blobName),
+				size
+			};
+		},
+
+		async deleteBlob(container, blobName) {
+			await rm(blobPath(container, blobName), { force: true });
+		},
+
+		async listBlobs(container) {
+			try {
+				const names = await readdir(path.join(root, container));
+				return names.filter((name) => !name.endsWith('.tmp'));
+			} catch (error) {
+				if (isNotFound(error)) return [];
+				throw error;
+			}
+		}
+	};
+
+	return storage;
+}
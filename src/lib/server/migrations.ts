@@ -0,0 +1,197 @@
+/**
+ * Database Migrations
+ * Schema changes for the database in database.ts, applied in order and each recorded
+ * in schema_migrations. Add new ones to the end; never change one that has shipped.
+ */
+
+import type { Database } from 'better-sqlite3';
+
+export interface Migration {
+	version: number;
+	name: string;
+	sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: 'create users, photos and comments',
+		sql: `
+			CREATE TABLE app_meta (
+				key TEXT PRIMARY KEY,
+				value TEXT NOT NULL
+			);
+
+			CREATE TABLE users (
+				id TEXT PRIMARY KEY,
+				username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+				avatar TEXT,
+				bio TEXT,
+				role TEXT,
+				password_hash TEXT,
+				created_at TEXT NOT NULL,
+				banned_at TEXT,
+				banned_by TEXT
+			);
+
+			CREATE TABLE follows (
+				follower_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+				user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+				followed_at TEXT NOT NULL,
+				PRIMARY KEY (follower_id, user_id)
+			);
+			CREATE INDEX follows_user ON follows (user_id);
+
+			CREATE TABLE photos (
+				id TEXT PRIMARY KEY,
+				user_id TEXT NOT NULL,
+				username TEXT NOT NULL,
+				title TEXT NOT NULL,
+				description TEXT,
+				visibility TEXT NOT NULL DEFAULT 'public',
+				blob_name TEXT,
+				image_url TEXT,
+				width INTEGER,
+				height INTEGER,
+				size_bytes INTEGER,
+				tags TEXT,
+				variants TEXT,
+				metadata TEXT,
+				location TEXT,
+				created_at TEXT NOT NULL,
+				deleted_at TEXT,
+				deleted_by TEXT,
+				hidden_at TEXT,
+				hidden_by TEXT
+			);
+			CREATE INDEX photos_created ON photos (created_at, id);
+			CREATE INDEX photos_user ON photos (user_id, created_at);
+			CREATE INDEX photos_deleted ON photos (deleted_at) WHERE deleted_at IS NOT NULL;
+
+			-- The photo's own tags plus hashtags from its text and comments (see getPhotoTags)
+			CREATE TABLE photo_tags (
+				photo_id TEXT NOT NULL REFERENCES photos (id) ON DELETE CASCADE,
+				tag TEXT NOT NULL,
+				PRIMARY KEY (tag, photo_id)
+			);
+
+			CREATE TABLE comments (
+				id TEXT PRIMARY KEY,
+				photo_id TEXT NOT NULL REFERENCES photos (id) ON DELETE CASCADE,
+				parent_id TEXT,
+				user_id TEXT NOT NULL,
+				username TEXT NOT NULL,
+				content TEXT NOT NULL,
+				html TEXT,
+				mentions TEXT,
+				revisions TEXT,
+				created_at TEXT NOT NULL,
+				edited_at TEXT,
+				deleted_at TEXT,
+				deleted_by TEXT,
+				hidden_at TEXT,
+				hidden_by TEXT
+			);
+			CREATE INDEX comments_photo ON comments (photo_id, created_at);
+			CREATE INDEX comments_user ON comments (user_id);
+			CREATE INDEX comments_deleted ON comments (deleted_at) WHERE deleted_at IS NOT NULL;
+
+			-- Who chose which reaction on a photo or comment (target_type 'photo' or 'comment')
+			CREATE TABLE reactions (
+				target_type TEXT NOT NULL,
+				target_id TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				type TEXT NOT NULL,
+				PRIMARY KEY (target_type, target_id, type, user_id)
+			);
+		`
+	},
+	{
+		version: 2,
+		name: 'record the numeric IDs photos and comments had before UUIDs',
+		sql: `
+			-- Kept so old URLs can be redirected (see legacy-ids.ts)
+			CREATE TABLE legacy_ids (
+				type TEXT NOT NULL,
+				legacy_id TEXT NOT NULL,
+				id TEXT NOT NULL,
+				-- When references to it in the storage indexes were updated
+				relinked_at TEXT,
+				PRIMARY KEY (type, legacy_id)
+			);
+		`
+	},
+	{
+		version: 3,
+		name: 'index photos for full-text search',
+		sql: `
+			-- The text photos are searched by (see getSearchDocument); each row has the
+			-- rowid of its photo
+			CREATE VIRTUAL TABLE photo_search USING fts5(
+				title,
+				tags,
+				description,
+				username,
+				comments,
+				tokenize = 'unicode61 remove_diacritics 2'
+			);
+
+			CREATE TRIGGER photos_search_delete AFTER DELETE ON photos BEGIN
+				DELETE FROM photo_search WHERE rowid = old.rowid;
+			END;
+
+			INSERT INTO photo_search (rowid, title, tags, description, username, comments)
+			SELECT
+				p.rowid,
+				p.title,
+				(SELECT group_concat(t.tag, ' ') FROM photo_tags t WHERE t.photo_id = p.id),
+				p.description,
+				p.username,
+				(
+					SELECT group_concat(c.username || ' ' || c.content, char(10)) FROM comments c
+					WHERE c.photo_id = p.id AND c.deleted_at IS NULL AND c.hidden_at IS NULL
+				)
+			FROM photos p;
+		`
+	},
+	{
+		version: 4,
+		name: 'let session cookies be revoked',
+		sql: `
+			-- Part of each session cookie; bumping it ends the user's sessions (see auth.ts)
+			ALTER TABLE users ADD COLUMN session_version INTEGER NOT NULL DEFAULT 0;
+		`
+	}
+];
+
+/**
+ * Apply the migrations a database hasn't had yet, each in its own transaction.
+ * Returns the versions applied.
+ */
+export function migrate(db: Database): number[] {
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at TEXT NOT NULL
+		)
+	`);
+
+	const applied = new Set(
+		db.prepare('SELECT version FROM schema_migrations').pluck().all() as number[]
+	);
+	const apply = db.transaction((migration: Migration) => {
+		db.exec(migration.sql);
+		db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(
+			migration.version,
+			migration.name,
+			new Date().toISOString()
+		);
+	});
+
+	const pending = MIGRATIONS.filter((migration) => !applied.has(migration.version));
+	for (const migration of pending) {
+		apply(migration);
+	}
+	return pending.map((migration) => migration.version);
+}
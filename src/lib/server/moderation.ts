@@ -0,0 +1,324 @@
+/**
+ * Moderation
+ * Content reports, the moderators' actions on them and the audit trail of those
+ * actions, each persisted in its own index
+ */
+
+import type {
+	ContentModerationAction,
+	ModerationLogEntry,
+	QueuedReport,
+	Report,
+	ReportReason,
+	ReportStatus,
+	ReportTargetType,
+	User,
+	UserRole
+} from '$lib/types';
+import { truncate } from '$lib/utils';
+import { getIndex, updateIndex, MODERATION_LOG_BLOB, REPORTS_INDEX_BLOB } from './storage';
+import {
+	getModerationTarget,
+	getUserById,
+	moderateComment,
+	moderatePhoto,
+	setUserBan,
+	setUserRole
+} from './db';
+
+const EXCERPT_LENGTH = 200;
+// Resolved reports are listed newest first, up to this many
+const MAX_RESOLVED_REPORTS = 100;
+
+const ROLE_RANK: Record<UserRole, number> = { member: 0, moderator: 1, admin: 2 };
+
+const ACTION_PAST_TENSE: Record<ContentModerationAction, string> = {
+	hide: 'hidden',
+	unhide: 'unhidden',
+	delete: 'deleted',
+	restore: 'restored'
+};
+
+/**
+ * A moderation request that can't be carried out. `status` is the HTTP status to
+ * respond with.
+ */
+export class ModerationError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'ModerationError';
+	}
+}
+
+export interface ReportInput {
+	targetType: ReportTargetType;
+	targetId: string;
+	reason: ReportReason;
+	details?: string;
+}
+
+function nextId(items: { id: string }[]): string {
+	return String(Math.max(0, ...items.map((item) => parseInt(item.id) || 0)) + 1);
+}
+
+async function recordAction(
+	moderator: User,
+	entry: Omit<ModerationLogEntry, 'id' | 'moderatorId' | 'moderatorUsername' | 'createdAt'>
+): Promise<ModerationLogEntry> {
+	const { result } = await updateIndex<ModerationLogEntry, ModerationLogEntry>(
+		'comment',
+		MODERATION_LOG_BLOB,
+		(log) => {
+			// Derived from the list being updated so a retried write doesn't reuse IDs
+			const logged: ModerationLogEntry = {
+				id: nextId(log),
+				...entry,
+				moderatorId: moderator.id,
+				moderatorUsername: moderator.username,
+				createdAt: new Date().toISOString()
+			};
+			log.push(logged);
+			return logged;
+		}
+	);
+
+	return result;
+}
+
+/**
+ * Close the open reports `select` picks as `status`. Returns the IDs closed.
+ */
+async function closeReports(
+	moderator: User,
+	status: Exclude<ReportStatus, 'open'>,
+	select: (report: Report) => boolean
+): Promise<string[]> {
+	const { result } = await updateIndex<Report, string[]>('comment', REPORTS_INDEX_BLOB, (reports) => {
+		const resolvedAt = new Date().toISOString();
+		const closed: string[] = [];
+
+		for (const report of reports) {
+			if (report.status !== 'open' || !select(report)) continue;
+			report.status = status;
+			report.resolvedAt = resolvedAt;
+			report.resolvedBy = moderator.id;
+			closed.push(report.id);
+		}
+		return closed;
+	});
+
+	return result;
+}
+
+/**
+ * File a report on a photo or comment someone else posted. Reporting the same
+ * content again while the first report is open returns that report.
+ */
+export async function fileReport(reporter: User, input: ReportInput): Promise<Report> {
+	// Content the reporter can't see is not found, so reports can't reveal it
+	const target = await getModerationTarget(input.targetType, input.targetId, reporter.id);
+	if (!target || target.status !== 'visible') {
+		throw new ModerationError(
+			input.targetType === 'photo' ? 'Photo not found' : 'Comment not found',
+			404
+		);
+	}
+	if (target.userId === reporter.id) {
+		throw new ModerationError("You can't report your own posts");
+	}
+
+	const { result } = await updateIndex<Report, Report>('comment', REPORTS_INDEX_BLOB, (reports) => {
+		const existing = reports.find(
+			(r) =>
+				r.status === 'open' &&
+				r.reporterId === reporter.id &&
+				r.targetType === input.targetType &&
+				r.targetId === input.targetId
+		);
+		if (existing) return existing;
+
+		const report: Report = {
+			id: nextId(reports),
+			targetType: input.targetType,
+			targetId: input.targetId,
+			photoId: target.photoId,
+			targetUserId: target.userId,
+			targetUsername: target.username,
+			excerpt: truncate(target.excerpt.replace(/\s+/g, ' ').trim(), EXCERPT_LENGTH),
+			reason: input.reason,
+			details: input.details,
+			reporterId: reporter.id,
+			reporterUsername: reporter.username,
+			createdAt: new Date().toISOString(),
+			status: 'open'
+		};
+		reports.push(report);
+		return report;
+	});
+
+	return result;
+}
+
+/**
+ * Reports with the given status and the current state of their content. Open
+ * reports come oldest first, as a queue; resolved ones newest first.
+ */
+export async function getReports(status: ReportStatus): Promise<QueuedReport[]> {
+	const reports = (await getIndex<Report>('comment', REPORTS_INDEX_BLOB)).filter(
+		(r) => r.status === status
+	);
+
+	const sorted =
+		status === 'open'
+			? reports.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+			: reports
+					.sort(
+						(a, b) =>
+							new Date(b.resolvedAt ?? b.createdAt).getTime() -
+							new Date(a.resolvedAt ?? a.createdAt).getTime()
+					)
+					.slice(0, MAX_RESOLVED_REPORTS);
+
+	return Promise.all(
+		sorted.map(async (report) => {
+			const target = await getModerationTarget(report.targetType, report.targetId);
+			return { ...report, targetStatus: target?.status ?? 'gone' };
+		})
+	);
+}
+
+/**
+ * Hide, unhide, delete or restore a photo or comment. Hiding or deleting closes
+ * the open reports on it.
+ */
+export async function moderateContent(
+	moderator: User,
+	targetType: ReportTargetType,
+	targetId: string,
+	action: ContentModerationAction,
+	reason?: string
+): Promise<ModerationLogEntry> {
+	const applied =
+		targetType === 'photo'
+			? await moderatePhoto(targetId, action, moderator.id)
+			: await moderateComment(targetId, action, moderator.id);
+
+	if (!applied) {
+		const target = await getModerationTarget(targetType, targetId);
+		if (!target) {
+			throw new ModerationError(targetType === 'photo' ? 'Photo not found' : 'Comment not found', 404);
+		}
+		throw new ModerationError(
+			`This ${targetType} can't be ${ACTION_PAST_TENSE[action]} in its current state`,
+			409
+		);
+	}
+
+	const reportIds =
+		action === 'hide' || action === 'delete'
+			? await closeReports(
+					moderator,
+					'actioned',
+					(r) => r.targetType === targetType && r.targetId === targetId
+				)
+			: [];
+
+	return recordAction(moderator, { action, targetType, targetId, reason, reportIds });
+}
+
+/**
+ * Close an open report without acting on its content
+ */
+export async function dismissReport(
+	moderator: User,
+	reportId: string,
+	reason?: string
+): Promise<ModerationLogEntry> {
+	const reportIds = await closeReports(moderator, 'dismissed', (r) => r.id === reportId);
+	if (reportIds.length === 0) {
+		throw new ModerationError('Open report not found', 404);
+	}
+
+	return recordAction(moderator, {
+		action: 'dismiss',
+		targetType: 'report',
+		targetId: reportId,
+		reason,
+		reportIds
+	});
+}
+
+/**
+ * Look up a user a moderator wants to act on; they must rank below the moderator
+ */
+async function getSubordinate(moderator: User, userId: string): Promise<User> {
+	const user = await getUserById(userId);
+	if (!user) {
+		throw new ModerationError('User not found', 404);
+	}
+	if (user.id === moderator.id || ROLE_RANK[user.role] >= ROLE_RANK[moderator.role]) {
+		throw new ModerationError('You can only act on users with a lower role than yours', 403);
+	}
+	return user;
+}
+
+/**
+ * Ban a user, which signs them out everywhere, or lift their ban. Their posts are
+ * left as they are.
+ */
+export async function moderateUser(
+	moderator: User,
+	userId: string,
+	action: 'ban' | 'unban',
+	reason?: string
+): Promise<ModerationLogEntry> {
+	const user = await getSubordinate(moderator, userId);
+	if (!!user.bannedAt === (action === 'ban')) {
+		throw new ModerationError(action === 'ban' ? 'User is already banned' : 'User is not banned', 409);
+	}
+
+	await setUserBan(user.id, action === 'ban' ? moderator.id : null);
+	return recordAction(moderator, { action, targetType: 'user', targetId: user.id, reason, reportIds: [] });
+}
+
+/**
+ * Give a user a role. Only admins assign roles (see isAdmin), and not their own.
+ */
+export async function assignRole(
+	admin: User,
+	userId: string,
+	role: UserRole,
+	reason?: string
+): Promise<User> {
+	if (userId === admin.id) {
+		throw new ModerationError("You can't change your own role", 403);
+	}
+
+	const user = await setUserRole(userId, role);
+	if (!user) {
+		throw new ModerationError('User not found', 404);
+	}
+
+	await recordAction(admin, {
+		action: 'set-role',
+		targetType: 'user',
+		targetId: user.id,
+		role,
+		reason,
+		reportIds: []
+	});
+	return user;
+}
+
+/**
+ * The latest moderation actions, newest first
+ */
+export async function getModerationLog(limit: number): Promise<ModerationLogEntry[]> {
+	const log = await getIndex<ModerationLogEntry>('comment', MODERATION_LOG_BLOB);
+	return log
+		.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+		.slice(0, limit);
+}
@@ -0,0 +1,158 @@
+/**
+ * Notifications
+ * Turns comment events into per-user notifications, persisted in their own index
+ */
+
+import type { Notification, NotificationList, NotificationType } from '$lib/types';
+import { truncate } from '$lib/utils';
+import { getIndex, updateIndex, NOTIFICATIONS_INDEX_BLOB } from './storage';
+import { onServerEvent, type CommentEvent } from './events';
+import { canViewPhoto, type StoredComment } from './db';
+
+// Older notifications are dropped once a user has this many
+const MAX_NOTIFICATIONS_PER_USER = 100;
+const EXCERPT_LENGTH = 100;
+
+let subscribed = false;
+
+/**
+ * Top-level comment a comment belongs to
+ */
+function findThreadRoot(comments: StoredComment[], comment: StoredComment): StoredComment {
+	const byId = new Map(comments.map((c) => [c.id, c]));
+	const seen = new Set<string>();
+
+	let root = comment;
+	while (root.parentId && byId.has(root.parentId) && !seen.has(root.id)) {
+		seen.add(root.id);
+		root = byId.get(root.parentId)!;
+	}
+	return root;
+}
+
+/**
+ * Who should hear about a new comment, and why. A user gets one notification per
+ * comment, for the most specific reason: a mention, then a reply, then their photo.
+ */
+function getRecipients({ photo, comment }: CommentEvent): Map<string, NotificationType> {
+	const recipients = new Map<string, NotificationType>();
+
+	for (const mention of comment.mentions ?? []) {
+		recipients.set(mention.userId, 'mention');
+	}
+
+	if (comment.parentId) {
+		const root = findThreadRoot(photo.comments, comment);
+		for (const other of photo.comments) {
+			if (other.id === comment.id || other.deletedAt || other.hiddenAt) continue;
+			if (findThreadRoot(photo.comments, other).id !== root.id) continue;
+			if (!recipients.has(other.userId)) recipients.set(other.userId, 'reply');
+		}
+	}
+
+	if (!recipients.has(photo.userId)) recipients.set(photo.userId, 'comment');
+
+	recipients.delete(comment.userId);
+	// Nobody hears about a comment on a photo they can't see
+	for (const userId of recipients.keys()) {
+		if (!canViewPhoto(photo, userId)) recipients.delete(userId);
+	}
+	return recipients;
+}
+
+async function handleCommentAdded(event: CommentEvent): Promise<void> {
+	const recipients = getRecipients(event);
+	if (recipients.size === 0) return;
+
+	const { photo, comment } = event;
+
+	await updateIndex<Notification, void>('comment', NOTIFICATIONS_INDEX_BLOB, (notifications) => {
+		// Derived from the list being updated so a retried write doesn't reuse IDs
+		let nextId = Math.max(0, ...notifications.map((n) => parseInt(n.id) || 0)) + 1;
+
+		for (const [userId, type] of recipients) {
+			notifications.push({
+				id: String(nextId++),
+				userId,
+				type,
+				actorId: comment.userId,
+				actorUsername: comment.username,
+				photoId: photo.id,
+				photoTitle: photo.title,
+				commentId: comment.id,
+				excerpt: truncate(comment.content.replace(/\s+/g, ' ').trim(), EXCERPT_LENGTH),
+				createdAt: comment.createdAt
+			});
+
+			const own = notifications.filter((n) => n.userId === userId);
+			for (const stale of own.slice(0, Math.max(0, own.length - MAX_NOTIFICATIONS_PER_USER))) {
+				notifications.splice(notifications.indexOf(stale), 1);
+			}
+		}
+	});
+}
+
+/**
+ * A deleted comment takes its notifications with it
+ */
+async function handleCommentDeleted({ comment }: CommentEvent): Promise<void> {
+	await updateIndex<Notification, void>('comment', NOTIFICATIONS_INDEX_BLOB, (notifications) => {
+		for (let i = notifications.length - 1; i >= 0; i--) {
+			if (notifications[i].commentId === comment.id) notifications.splice(i, 1);
+		}
+	});
+}
+
+/**
+ * Start turning comment events into notifications; safe to call more than once
+ */
+export function subscribeNotifications(): void {
+	if (subscribed) return;
+	subscribed = true;
+
+	onServerEvent('comment:added', handleCommentAdded);
+	onServerEvent('comment:deleted', handleCommentDeleted);
+}
+
+/**
+ * A user's latest notifications, newest first, with their total unread count
+ */
+export async function getNotifications(userId: string, limit: number): Promise<NotificationList> {
+	const own = (await getIndex<Notification>('comment', NOTIFICATIONS_INDEX_BLOB)).filter(
+		(n) => n.userId === userId
+	);
+
+	return {
+		notifications: own
+			.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+			.slice(0, limit),
+		unreadCount: own.filter((n) => !n.readAt).length
+	};
+}
+
+/**
+ * Mark some (or, without IDs, all) of a user's notifications as read.
+ * Returns how many are still unread.
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+	const readAt = new Date().toISOString();
+
+	const { result } = await updateIndex<Notification, number>(
+		'comment',
+		NOTIFICATIONS_INDEX_BLOB,
+		(notifications) => {
+			let unread = 0;
+			for (const notification of notifications) {
+				if (notification.userId !== userId || notification.readAt) continue;
+				if (!ids || ids.includes(notification.id)) {
+					notification.readAt = readAt;
+				} else {
+					unread++;
+				}
+			}
+			return unread;
+		}
+	);
+
+	return result;
+}
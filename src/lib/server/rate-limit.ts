@@ -0,0 +1,162 @@
+/**
+ * Rate Limiting
+ * Token buckets for write requests, keyed by the signed-in user or else the client's
+ * IP address. Buckets are kept in a RateLimitStore; the default one lives in memory and
+ * so is per process, which is why deployments with several instances should install a
+ * shared store with setRateLimitStore.
+ */
+
+import { env } from '$env/dynamic/private';
+import { json, type RequestEvent } from '@sveltejs/kit';
+import { pluralize } from '$lib/utils';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export interface RateLimit {
+	// Requests allowed in a burst
+	capacity: number;
+	// How long an empty bucket takes to refill completely
+	periodMs: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	// When not allowed, how long until the bucket has a token again
+	retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+	/** Take a token from the bucket at `key`, starting with a full bucket if there is none */
+	take(key: string, limit: RateLimit): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+	periodMs: number;
+}
+
+// Full buckets are dropped this often so the map only holds recently active clients
+const SWEEP_INTERVAL_MS = 10 * MINUTE_MS;
+
+/**
+ * A store that keeps buckets in this process's memory
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+	const buckets = new Map<string, Bucket>();
+	let lastSweep = Date.now();
+
+	function sweep(now: number) {
+		for (const [key, bucket] of buckets) {
+			// A bucket idle for a whole period is full again, the same as having none
+			if (now - bucket.updatedAt >= bucket.periodMs) buckets.delete(key);
+		}
+		lastSweep = now;
+	}
+
+	return {
+		async take(key, { capacity, periodMs }) {
+			const now = Date.now();
+			if (now - lastSweep >= SWEEP_INTERVAL_MS) sweep(now);
+
+			const refillPerMs = capacity / periodMs;
+			const bucket = buckets.get(key);
+			const tokens = bucket
+				? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+				: capacity;
+
+			if (tokens < 1) {
+				buckets.set(key, { tokens, updatedAt: now, periodMs });
+				return { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+			}
+
+			buckets.set(key, { tokens: tokens - 1, updatedAt: now, periodMs });
+			return { allowed: true, retryAfterMs: 0 };
+		}
+	};
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Keep buckets somewhere else, such as a store shared by all instances
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+	store = next;
+}
+
+interface RateLimitRule {
+	name: string;
+	// Whether the rule covers a request, by its method and SvelteKit route ID
+	matches: (method: string, routeId: string) => boolean;
+	limit: () => RateLimit;
+	// Key by IP address even when signed in, for routes used to sign in
+	byAddress?: boolean;
+}
+
+function perPeriod(value: string | undefined, fallback: number, periodMs: number): RateLimit {
+	const capacity = Number(value);
+	return { capacity: capacity > 0 ? capacity : fallback, periodMs };
+}
+
+// The first rule that matches a request applies; reads are never limited
+const RULES: RateLimitRule[] = [
+	{
+		name: 'uploads',
+		matches: (method, routeId) => method === 'POST' && routeId === '/api/photos',
+		limit: () => perPeriod(env.RATE_LIMIT_UPLOADS_PER_HOUR, 30, HOUR_MS)
+	},
+	{
+		name: 'comments',
+		matches: (method, routeId) => method === 'POST' && routeId === '/api/comments',
+		limit: () => perPeriod(env.RATE_LIMIT_COMMENTS_PER_MINUTE, 10, MINUTE_MS)
+	},
+	{
+		name: 'auth',
+		matches: (method, routeId) =>
+			method === 'POST' && (routeId === '/api/auth/login' || routeId === '/api/auth/register'),
+		limit: () => ({ capacity: 10, periodMs: 15 * MINUTE_MS }),
+		byAddress: true
+	},
+	{
+		name: 'writes',
+		matches: (method, routeId) => routeId.startsWith('/api/'),
+		limit: () => perPeriod(env.RATE_LIMIT_WRITES_PER_MINUTE, 60, MINUTE_MS)
+	}
+];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Take a token for a request. Returns the 429 response to send when the client is
+ * over its limit, or null to let the request through.
+ */
+export async function applyRateLimit(event: RequestEvent): Promise<Response | null> {
+	const method = event.request.method;
+	const routeId = event.route.id;
+	if (!routeId || READ_METHODS.includes(method)) return null;
+
+	const rule = RULES.find((r) => r.matches(method, routeId));
+	if (!rule) return null;
+
+	const client =
+		event.locals.user && !rule.byAddress
+			? `user:${event.locals.user.id}`
+			: `ip:${event.getClientAddress()}`;
+
+	const { allowed, retryAfterMs } = await store.take(`${rule.name}:${client}`, rule.limit());
+	if (allowed) return null;
+
+	const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+	return json(
+		{ error: `Too many requests, please try again in ${formatWait(seconds)}` },
+		{ status: 429, headers: { 'Retry-After': String(seconds) } }
+	);
+}
+
+function formatWait(seconds: number): string {
+	if (seconds < 60) return `${seconds} ${pluralize(seconds, 'second')}`;
+	const minutes = Math.ceil(seconds / 60);
+	return `${minutes} ${pluralize(minutes, 'minute')}`;
+}
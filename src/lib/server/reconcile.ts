@@ -0,0 +1,187 @@
+/**
+ * Storage Reconciliation
+ * Compares the photo container with the photos table: deletes images no photo refers
+ * to any more and reports photos whose images are missing
+ */
+
+import { env } from '$env/dynamic/private';
+import { getStorage } from './storage';
+import { getPhotoBlobNames, getPhotoBlobs, isUploadInProgress } from './db';
+import { getIdTime } from './ids';
+import { isSoleStorageOwner } from './storage-owner';
+
+export interface DanglingPhoto {
+	photoId: string;
+	missingBlobs: string[];
+}
+
+export interface ReconcileReport {
+	dryRun: boolean;
+	startedAt: string;
+	finishedAt: string;
+	blobCount: number;
+	photoCount: number;
+	// Images no photo refers to; deleted unless this was a dry run
+	orphanedBlobs: string[];
+	deletedBlobs: string[];
+	failedBlobs: string[];
+	// Photos whose images are missing from storage
+	danglingPhotos: DanglingPhoto[];
+}
+
+// Image blobs are named photo-<id>.<ext> or photo-<id>-<variant>.<ext>, where the ID
+// is a UUID or, for photos uploaded before those, a number
+const PHOTO_BLOB_PATTERN =
+	/^photo-(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:-[a-z0-9]+)?\.[a-z0-9]+$/i;
+
+// A photo's images are stored before its row. No upload takes this long, so blobs
+// for IDs older than this can't belong to a photo still being saved.
+const UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Storage has been used by another database, so images this one doesn't know of may
+ * still belong to photos. Only dry runs are allowed.
+ */
+export class ReconcileRefusedError extends Error {
+	constructor() {
+		super('Storage has been used by another database; orphaned images cannot be told apart');
+		this.name = 'ReconcileRefusedError';
+	}
+}
+
+// The latest run started, which may be waiting for the one before it to finish
+let running: { dryRun: boolean; report: Promise<ReconcileReport> } | null = null;
+let lastReport: ReconcileReport | null = null;
+let scheduled = false;
+
+async function reconcile(dryRun: boolean): Promise<ReconcileReport> {
+	if (!dryRun && !(await isSoleStorageOwner())) {
+		throw new ReconcileRefusedError();
+	}
+
+	const startedAt = new Date().toISOString();
+	const storage = await getStorage();
+
+	// Read the photos before listing, so a photo saved in between can only make
+	// its blobs look referenced, never orphaned
+	const photos = await getPhotoBlobs();
+	const blobs = await storage.listBlobs('photo');
+	const stored = new Set(blobs);
+
+	const referenced = new Set<string>();
+	const danglingPhotos: DanglingPhoto[] = [];
+	for (const photo of photos) {
+		const names = getPhotoBlobNames(photo);
+		names.forEach((name) => referenced.add(name));
+
+		const missingBlobs = names.filter((name) => !stored.has(name));
+		if (missingBlobs.length > 0) danglingPhotos.push({ photoId: photo.id, missingBlobs });
+	}
+
+	// IDs carry their creation time; numeric IDs are no longer handed out, so their
+	// uploads finished long ago
+	const uploadCutoff = Date.parse(startedAt) - UPLOAD_GRACE_MS;
+
+	const orphanedBlobs = blobs.filter((name) => {
+		const match = name.match(PHOTO_BLOB_PATTERN);
+		if (!match || referenced.has(name)) return false;
+		return (getIdTime(match[1]) ?? 0) <= uploadCutoff && !isUploadInProgress(match[1]);
+	});
+
+	const deletedBlobs: string[] = [];
+	const failedBlobs: string[] = [];
+	if (!dryRun) {
+		for (const name of orphanedBlobs) {
+			try {
+				await storage.deleteBlob('photo', name);
+				deletedBlobs.push(name);
+			} catch (error) {
+				console.error(`Failed to delete orphaned blob ${name}:`, error);
+				failedBlobs.push(name);
+			}
+		}
+	}
+
+	return {
+		dryRun,
+		startedAt,
+		finishedAt: new Date().toISOString(),
+		blobCount: blobs.length,
+		photoCount: photos.length,
+		orphanedBlobs,
+		deletedBlobs,
+		failedBlobs,
+		danglingPhotos
+	};
+}
+
+function logReport(report: ReconcileReport) {
+	const action = report.dryRun ? 'would delete' : 'deleted';
+	const count = report.dryRun ? report.orphanedBlobs.length : report.deletedBlobs.length;
+	console.log(
+		`Storage reconciliation: ${report.blobCount} blobs, ${report.photoCount} photos; ` +
+			`${action} ${count} orphaned blobs`
+	);
+
+	for (const { photoId, missingBlobs } of report.danglingPhotos) {
+		console.warn(`Photo ${photoId} is missing blobs: ${missingBlobs.join(', ')}`);
+	}
+}
+
+/**
+ * Reconcile storage with the photos table. With `dryRun` nothing is deleted and the
+ * report lists what would be. Runs one at a time: callers asking for the same kind
+ * of run as the latest share it, others wait for it to finish and then start theirs.
+ */
+export function reconcileStorage({ dryRun }: { dryRun: boolean }): Promise<ReconcileReport> {
+	if (running?.dryRun === dryRun) return running.report;
+
+	const previous = running?.report.catch(() => {}) ?? Promise.resolve();
+	const report = previous
+		.then(() => reconcile(dryRun))
+		.then((result) => {
+			lastReport = result;
+			logReport(result);
+			return result;
+		})
+		.finally(() => {
+			if (running?.report === report) running = null;
+		});
+
+	running = { dryRun, report };
+	return report;
+}
+
+/**
+ * The outcome of the most recent run in this process, if any
+ */
+export function getLastReconcileReport(): ReconcileReport | null {
+	return lastReport;
+}
+
+/**
+ * Run reconciliation at startup and/or on an interval, as configured with
+ * RECONCILE_ON_STARTUP, RECONCILE_INTERVAL_HOURS and RECONCILE_DRY_RUN.
+ * Safe to call more than once.
+ */
+export function scheduleReconciliation(): void {
+	if (scheduled) return;
+	scheduled = true;
+
+	const dryRun = env.RECONCILE_DRY_RUN === 'true';
+	const run = () => {
+		reconcileStorage({ dryRun }).catch((error) => {
+			console.error('Storage reconciliation failed:', error);
+		});
+	};
+
+	if (env.RECONCILE_ON_STARTUP === 'true') {
+		run();
+	}
+
+	const hours = Number(env.RECONCILE_INTERVAL_HOURS);
+	if (hours > 0) {
+		// Don't keep the process alive just for this
+		setInterval(run, hours * 60 * 60 * 1000).unref();
+	}
+}
@@ -0,0 +1,353 @@
+/**
+ * Database Records
+ * Converts users, photos and comments between the shapes db.ts works with and rows
+ * in the database (see migrations.ts). Optional fields come back absent rather than
+ * null, as they were in the JSON indexes.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { PhotoVisibility, ReactionType, UserRole } from '$lib/types';
+import { getPhotoTags } from '$lib/utils';
+import type { ReactionUsers, StoredComment, StoredPhoto, StoredUser } from './db';
+import { getSearchDocument, SEARCH_COLUMNS } from './search';
+
+export interface UserRow {
+	id: string;
+	username: string;
+	avatar: string | null;
+	bio: string | null;
+	role: UserRole | null;
+	password_hash: string | null;
+	created_at: string;
+	banned_at: string | null;
+	banned_by: string | null;
+}
+
+export interface PhotoRow {
+	id: string;
+	user_id: string;
+	username: string;
+	title: string;
+	description: string | null;
+	visibility: PhotoVisibility;
+	blob_name: string | null;
+	image_url: string | null;
+	width: number | null;
+	height: number | null;
+	size_bytes: number | null;
+	// JSON
+	tags: string | null;
+	variants: string | null;
+	metadata: string | null;
+	location: string | null;
+	created_at: string;
+	deleted_at: string | null;
+	deleted_by: string | null;
+	hidden_at: string | null;
+	hidden_by: string | null;
+}
+
+export interface CommentRow {
+	id: string;
+	photo_id: string;
+	parent_id: string | null;
+	user_id: string;
+	username: string;
+	content: string;
+	html: string | null;
+	// JSON
+	mentions: string | null;
+	revisions: string | null;
+	created_at: string;
+	edited_at: string | null;
+	deleted_at: string | null;
+	deleted_by: string | null;
+	hidden_at: string | null;
+	hidden_by: string | null;
+}
+
+export type ReactionTarget = 'photo' | 'comment';
+
+interface ReactionRow {
+	target_id: string;
+	user_id: string;
+	type: ReactionType;
+}
+
+/**
+ * Drop the fields a row left undefined
+ */
+function compact<T extends object>(record: T): T {
+	for (const key of Object.keys(record) as (keyof T)[]) {
+		if (record[key] === undefined) delete record[key];
+	}
+	return record;
+}
+
+function fromJson<T>(value: string | null): T | undefined {
+	return value === null ? undefined : JSON.parse(value);
+}
+
+function toJson(value: unknown): string | null {
+	return value === undefined ? null : JSON.stringify(value);
+}
+
+/**
+ * Insert a row, or overwrite the one with the same ID
+ */
+function upsert(db: Database, table: string, row: object): void {
+	const columns = Object.keys(row);
+	const updates = columns.filter((column) => column !== 'id').map((column) => `${column} = excluded.${column}`);
+
+	db.prepare(
+		`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((column) => `@${column}`).join(', ')})
+		ON CONFLICT (id) DO UPDATE SET ${updates.join(', ')}`
+	).run(row);
+}
+
+export function toStoredUser(row: UserRow): StoredUser {
+	return compact({
+		id: row.id,
+		username: row.username,
+		avatar: row.avatar ?? undefined,
+		bio: row.bio ?? undefined,
+		role: row.role ?? undefined,
+		passwordHash: row.password_hash,
+		createdAt: row.created_at,
+		bannedAt: row.banned_at ?? undefined,
+		bannedBy: row.banned_by ?? undefined
+	});
+}
+
+export function saveUser(db: Database, user: StoredUser): void {
+	upsert(db, 'users', {
+		id: user.id,
+		username: user.username,
+		avatar: user.avatar ?? null,
+		bio: user.bio ?? null,
+		role: user.role ?? null,
+		password_hash: user.passwordHash,
+		created_at: user.createdAt,
+		banned_at: user.bannedAt ?? null,
+		banned_by: user.bannedBy ?? null
+	} satisfies UserRow);
+}
+
+/**
+ * A photo from its row, with the comments and reactions read separately
+ */
+export function toStoredPhoto(
+	row: PhotoRow,
+	comments: StoredComment[] = [],
+	reactedBy?: ReactionUsers
+): StoredPhoto {
+	return compact({
+		id: row.id,
+		userId: row.user_id,
+		username: row.username,
+		title: row.title,
+		description: row.description ?? undefined,
+		visibility: row.visibility === 'public' ? undefined : row.visibility,
+		blobName: row.blob_name ?? undefined,
+		imageUrl: row.image_url ?? undefined,
+		width: row.width ?? undefined,
+		height: row.height ?? undefined,
+		sizeBytes: row.size_bytes ?? undefined,
+		tags: fromJson<string[]>(row.tags),
+		variants: fromJson<StoredPhoto['variants']>(row.variants),
+		metadata: fromJson<StoredPhoto['metadata']>(row.metadata),
+		location: fromJson<StoredPhoto['location']>(row.location),
+		createdAt: row.created_at,
+		deletedAt: row.deleted_at ?? undefined,
+		deletedBy: row.deleted_by ?? undefined,
+		hiddenAt: row.hidden_at ?? undefined,
+		hiddenBy: row.hidden_by ?? undefined,
+		comments,
+		reactedBy
+	});
+}
+
+/**
+ * Photos from their rows, each with all its comments (oldest first) and reactions
+ */
+export function readPhotos(db: Database, rows: PhotoRow[]): StoredPhoto[] {
+	if (rows.length === 0) return [];
+
+	const photoIds = rows.map((row) => row.id);
+	const commentRows = db
+		.prepare('SELECT * FROM comments WHERE photo_id IN (SELECT value FROM json_each(?)) ORDER BY rowid')
+		.all(JSON.stringify(photoIds)) as CommentRow[];
+
+	const comments = new Map<string, StoredComment[]>();
+	for (const comment of readComments(db, commentRows)) {
+		comments.set(comment.photoId, [...(comments.get(comment.photoId) ?? []), comment]);
+	}
+
+	const reactions = readReactions(db, 'photo', photoIds);
+	return rows.map((row) => toStoredPhoto(row, comments.get(row.id), reactions.get(row.id)));
+}
+
+/**
+ * Write a photo's own fields and the tags it is found by. Its comments and reactions
+ * are saved separately, but its tags include hashtags from the comments it holds.
+ */
+export function savePhoto(db: Database, photo: StoredPhoto): void {
+	upsert(db, 'photos', {
+		id: photo.id,
+		user_id: photo.userId,
+		username: photo.username,
+		title: photo.title,
+		description: photo.description ?? null,
+		visibility: photo.visibility ?? 'public',
+		blob_name: photo.blobName ?? null,
+		image_url: photo.imageUrl ?? null,
+		width: photo.width ?? null,
+		height: photo.height ?? null,
+		size_bytes: photo.sizeBytes ?? null,
+		tags: toJson(photo.tags),
+		variants: toJson(photo.variants),
+		metadata: toJson(photo.metadata),
+		location: toJson(photo.location),
+		created_at: photo.createdAt,
+		deleted_at: photo.deletedAt ?? null,
+		deleted_by: photo.deletedBy ?? null,
+		hidden_at: photo.hiddenAt ?? null,
+		hidden_by: photo.hiddenBy ?? null
+	} satisfies PhotoRow);
+
+	saveSearchIndexes(db, photo);
+}
+
+/**
+ * Rewrite the tags and text a photo is found by, after a change to it or its comments
+ */
+export function saveSearchIndexes(db: Database, photo: StoredPhoto): void {
+	db.prepare('DELETE FROM photo_tags WHERE photo_id = ?').run(photo.id);
+
+	const insert = db.prepare('INSERT INTO photo_tags (photo_id, tag) VALUES (?, ?)');
+	for (const tag of getPhotoTags(photo)) {
+		insert.run(photo.id, tag);
+	}
+
+	// Each row of photo_search shares its photo's rowid
+	db.prepare(
+		`INSERT OR REPLACE INTO photo_search (rowid, ${SEARCH_COLUMNS.join(', ')})
+		VALUES ((SELECT rowid FROM photos WHERE id = @id), ${SEARCH_COLUMNS.map((name) => `@${name}`).join(', ')})`
+	).run({ id: photo.id, ...getSearchDocument(photo) });
+}
+
+/**
+ * Write a new photo along with its comments and all their reactions
+ */
+export function insertPhoto(db: Database, photo: StoredPhoto): void {
+	savePhoto(db, photo);
+	saveReactions(db, 'photo', photo.id, photo.reactedBy);
+
+	for (const comment of photo.comments) {
+		saveComment(db, comment);
+		saveReactions(db, 'comment', comment.id, comment.reactedBy);
+	}
+}
+
+export function readComments(db: Database, rows: CommentRow[]): StoredComment[] {
+	const reactions = readReactions(db, 'comment', rows.map((row) => row.id));
+
+	return rows.map((row) =>
+		compact({
+			id: row.id,
+			photoId: row.photo_id,
+			parentId: row.parent_id ?? undefined,
+			userId: row.user_id,
+			username: row.username,
+			content: row.content,
+			html: row.html ?? undefined,
+			mentions: fromJson<StoredComment['mentions']>(row.mentions),
+			revisions: fromJson<StoredComment['revisions']>(row.revisions),
+			createdAt: row.created_at,
+			editedAt: row.edited_at ?? undefined,
+			deletedAt: row.deleted_at ?? undefined,
+			deletedBy: row.deleted_by ?? undefined,
+			hiddenAt: row.hidden_at ?? undefined,
+			hiddenBy: row.hidden_by ?? undefined,
+			reactedBy: reactions.get(row.id)
+		})
+	);
+}
+
+/**
+ * Write a comment's own fields; its reactions are saved with saveReaction
+ */
+export function saveComment(db: Database, comment: StoredComment): void {
+	upsert(db, 'comments', {
+		id: comment.id,
+		photo_id: comment.photoId,
+		parent_id: comment.parentId ?? null,
+		user_id: comment.userId,
+		username: comment.username,
+		content: comment.content,
+		html: comment.html ?? null,
+		mentions: toJson(comment.mentions),
+		revisions: toJson(comment.revisions),
+		created_at: comment.createdAt,
+		edited_at: comment.editedAt ?? null,
+		deleted_at: comment.deletedAt ?? null,
+		deleted_by: comment.deletedBy ?? null,
+		hidden_at: comment.hiddenAt ?? null,
+		hidden_by: comment.hiddenBy ?? null
+	} satisfies CommentRow);
+}
+
+/**
+ * Who chose each reaction, for each of the photos or comments with `targetIds`
+ */
+export function readReactions(
+	db: Database,
+	targetType: ReactionTarget,
+	targetIds: string[]
+): Map<string, ReactionUsers> {
+	const rows = db
+		.prepare(
+			`SELECT target_id, user_id, type FROM reactions
+			WHERE target_type = ? AND target_id IN (SELECT value FROM json_each(?))
+			ORDER BY rowid`
+		)
+		.all(targetType, JSON.stringify(targetIds)) as ReactionRow[];
+
+	const reactions = new Map<string, ReactionUsers>();
+	for (const row of rows) {
+		const reactedBy = reactions.get(row.target_id) ?? {};
+		reactedBy[row.type] = [...(reactedBy[row.type] ?? []), row.user_id];
+		reactions.set(row.target_id, reactedBy);
+	}
+	return reactions;
+}
+
+/**
+ * Add (`reacted` true) or remove one user's reaction; repeating the same change is a no-op
+ */
+export function saveReaction(
+	db: Database,
+	targetType: ReactionTarget,
+	targetId: string,
+	userId: string,
+	type: ReactionType,
+	reacted: boolean
+): void {
+	const sql = reacted
+		? 'INSERT OR IGNORE INTO reactions (target_type, target_id, user_id, type) VALUES (?, ?, ?, ?)'
+		: 'DELETE FROM reactions WHERE target_type = ? AND target_id = ? AND user_id = ? AND type = ?';
+	db.prepare(sql).run(targetType, targetId, userId, type);
+}
+
+function saveReactions(
+	db: Database,
+	targetType: ReactionTarget,
+	targetId: string,
+	reactedBy: ReactionUsers | undefined
+): void {
+	for (const [type, userIds] of Object.entries(reactedBy ?? {})) {
+		for (const userId of userIds) {
+			saveReaction(db, targetType, targetId, userId, type as ReactionType, true);
+		}
+	}
+}
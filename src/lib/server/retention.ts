@@ -0,0 +1,58 @@
+/**
+ * Trash Retention
+ * Permanently removes photos and comments that have been in the trash for longer
+ * than TRASH_RETENTION_DAYS
+ */
+
+import { purgeExpiredTrash } from './db';
+
+// Expiry is checked this often, so items go at most this long past their time
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface PurgeReport {
+	purgedAt: string;
+	photos: number;
+	comments: number;
+}
+
+let running: Promise<PurgeReport> | null = null;
+let scheduled = false;
+
+/**
+ * Purge expired trash now. Runs one at a time; concurrent callers share the run
+ * in progress.
+ */
+export function purgeTrash(): Promise<PurgeReport> {
+	if (running) return running;
+
+	running = purgeExpiredTrash()
+		.then(({ photos, comments }) => {
+			if (photos > 0 || comments > 0) {
+				console.log(`Trash purge: removed ${photos} photos and ${comments} comments`);
+			}
+			return { purgedAt: new Date().toISOString(), photos, comments };
+		})
+		.finally(() => {
+			running = null;
+		});
+
+	return running;
+}
+
+/**
+ * Purge expired trash at startup and then hourly; safe to call more than once
+ */
+export function scheduleTrashPurge(): void {
+	if (scheduled) return;
+	scheduled = true;
+
+	const run = () => {
+		purgeTrash().catch((error) => {
+			console.error('Trash purge failed:', error);
+		});
+	};
+
+	run();
+	// Don't keep the process alive just for this
+	setInterval(run, PURGE_INTERVAL_MS).unref();
+}
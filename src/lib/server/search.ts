@@ -0,0 +1,135 @@
+/**
+ * Photo Search
+ * Query parsing for full-text search over photo titles, descriptions, tags, uploaders
+ * and comments, which SQLite indexes in the photo_search table (see migrations.ts)
+ */
+
+import { getPhotoTags, isCommentRemoved, normalizeTag } from '$lib/utils';
+import type { StoredPhoto } from './db';
+
+/**
+ * A search as typed by the user, e.g. `"golden hour" beach tag:sunset user:alice from:2024-01-01`
+ */
+export interface ParsedQuery {
+	terms: string[];
+	phrases: string[][];
+	tags: string[];
+	users: string[];
+	// Date prefixes matched against the upload date: `date:2024`, `date:2024-05`
+	dates: string[];
+	from: number | null;
+	to: number | null;
+}
+
+type FieldName = 'title' | 'tags' | 'description' | 'username' | 'comments';
+
+// The columns of photo_search, in order
+export const SEARCH_COLUMNS: FieldName[] = ['title', 'tags', 'description', 'username', 'comments'];
+
+// How much a match in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<FieldName, number> = {
+	tags: 4,
+	title: 3,
+	description: 2,
+	username: 2,
+	comments: 1
+};
+
+/**
+ * Split text into lowercase word tokens, folding accents so "café" matches "cafe"
+ */
+export function tokenize(text: string | undefined): string[] {
+	return (
+		(text ?? '')
+			.normalize('NFKD')
+			.replace(/\p{M}/gu, '')
+			.toLowerCase()
+			.match(/[\p{L}\p{N}]+/gu) ?? []
+	);
+}
+
+/**
+ * Parse a date filter; a bare date as the upper bound includes that whole day
+ */
+export function parseDateBound(value: string | undefined, isUpperBound: boolean): number | null {
+	if (!value) return null;
+
+	const time = Date.parse(value);
+	if (Number.isNaN(time)) return null;
+
+	const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	return isUpperBound && isDateOnly ? time + 24 * 60 * 60 * 1000 : time;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+	const parsed: ParsedQuery = {
+		terms: [],
+		phrases: [],
+		tags: [],
+		users: [],
+		dates: [],
+		from: null,
+		to: null
+	};
+
+	// filter:"quoted value" | filter:value | "phrase" | word
+	const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+
+	for (const match of query.matchAll(pattern)) {
+		const [, quotedKey, quotedValue, key, value, phrase, word] = match;
+		const filter = (quotedKey ?? key)?.toLowerCase();
+		const filterValue = quotedValue ?? value;
+
+		if (filter === 'tag') {
+			const tag = normalizeTag(filterValue);
+			if (tag) parsed.tags.push(tag);
+		} else if (filter === 'user') {
+			parsed.users.push(filterValue.replace(/^@/, '').toLowerCase());
+		} else if (filter === 'from' || filter === 'after') {
+			parsed.from = parseDateBound(filterValue, false);
+		} else if (filter === 'to' || filter === 'before') {
+			parsed.to = parseDateBound(filterValue, true);
+		} else if (filter === 'date' && /^\d{4}(-\d{2}){0,2}$/.test(filterValue)) {
+			parsed.dates.push(filterValue);
+		} else if (phrase !== undefined) {
+			const tokens = tokenize(phrase);
+			if (tokens.length > 1) parsed.phrases.push(tokens);
+			else parsed.terms.push(...tokens);
+		} else {
+			// Unknown filters and #hashtags are searched as plain words
+			parsed.terms.push(...tokenize(word ?? match[0]));
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * A photo's text as kept in the photo_search table. Removed comments are left out, so
+ * their text can't surface the photo.
+ */
+export function getSearchDocument(photo: StoredPhoto): Record<FieldName, string> {
+	return {
+		title: photo.title,
+		tags: getPhotoTags(photo).join(' '),
+		description: photo.description ?? '',
+		username: photo.username,
+		comments: photo.comments
+			.filter((comment) => !isCommentRemoved(comment))
+			.map((comment) => `${comment.username} ${comment.content}`)
+			.join('\n')
+	};
+}
+
+/**
+ * The full-text query matching every word and phrase in the query, or null when it
+ * has only filters. Tokens are letters and digits only, so need no escaping.
+ */
+export function toMatchExpression(query: ParsedQuery): string | null {
+	const parts = [...query.terms, ...query.phrases.map((phrase) => phrase.join(' '))];
+	return parts.length > 0 ? parts.map((part) => `"${part}"`).join(' ') : null;
+}
+
+// Ranks photo_search matches, best first when sorted ascending. The columns are
+// weighted as FIELD_WEIGHTS, in the order the table declares them.
+export const SEARCH_RANK = `bm25(photo_search, ${SEARCH_COLUMNS.map((name) => FIELD_WEIGHTS[name]).join(', ')})`;
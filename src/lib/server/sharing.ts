@@ -0,0 +1,127 @@
+/**
+ * Share Links
+ * Unguessable links that let anyone holding one view a photo or album, whatever
+ * its visibility, persisted in their own index
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { AlbumDetail, Photo, ShareLink, ShareTargetType } from '$lib/types';
+import { getIndex, updateIndex, SHARE_LINKS_INDEX_BLOB } from './storage';
+import { getAlbumById, getPhotoById, getSharedAlbum, getSharedPhoto } from './db';
+
+// 192 bits, so tokens can't be guessed or enumerated
+const TOKEN_BYTES = 24;
+
+export interface SharedContent {
+	link: ShareLink;
+	photo?: Photo;
+	album?: AlbumDetail;
+}
+
+function isActive(link: ShareLink, now = Date.now()): boolean {
+	return !link.expiresAt || new Date(link.expiresAt).getTime() > now;
+}
+
+/**
+ * Whether the user owns the photo or album
+ */
+async function ownsTarget(userId: string, targetType: ShareTargetType, targetId: string): Promise<boolean> {
+	const target =
+		targetType === 'photo' ? await getPhotoById(targetId, userId) : await getAlbumById(targetId, userId);
+	return target?.userId === userId;
+}
+
+/**
+ * Create a share link for one of the user's photos or albums, optionally expiring
+ * after `expiresInDays`. Returns null if the user doesn't own it.
+ */
+export async function createShareLink(
+	userId: string,
+	targetType: ShareTargetType,
+	targetId: string,
+	expiresInDays?: number
+): Promise<ShareLink | null> {
+	if (!(await ownsTarget(userId, targetType, targetId))) {
+		return null;
+	}
+
+	const now = new Date();
+	const link: ShareLink = {
+		token: randomBytes(TOKEN_BYTES).toString('base64url'),
+		targetType,
+		targetId,
+		userId,
+		createdAt: now.toISOString()
+	};
+	if (expiresInDays) {
+		link.expiresAt = new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+	}
+
+	await updateIndex<ShareLink, void>('comment', SHARE_LINKS_INDEX_BLOB, (links) => {
+		// Expired links are of no use to anyone; clear them out while we're here
+		const active = links.filter((l) => isActive(l, now.getTime()));
+		links.splice(0, links.length, ...active, link);
+	});
+
+	return link;
+}
+
+/**
+ * The active share links for one of the user's photos or albums, newest first
+ */
+export async function getShareLinks(
+	userId: string,
+	targetType: ShareTargetType,
+	targetId: string
+): Promise<ShareLink[]> {
+	const links = await getIndex<ShareLink>('comment', SHARE_LINKS_INDEX_BLOB);
+	return links
+		.filter(
+			(l) => l.userId === userId && l.targetType === targetType && l.targetId === targetId && isActive(l)
+		)
+		.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Revoke one of the user's share links. Returns false if there is no such link.
+ */
+export async function revokeShareLink(userId: string, token: string): Promise<boolean> {
+	const { result } = await updateIndex<ShareLink, boolean>('comment', SHARE_LINKS_INDEX_BLOB, (links) => {
+		const index = links.findIndex((l) => l.token === token && l.userId === userId);
+		if (index === -1) return false;
+
+		links.splice(index, 1);
+		return true;
+	});
+
+	return result;
+}
+
+/**
+ * What a share link shows, if it is still active and its photo or album still
+ * exists
+ */
+export async function getSharedContent(token: string): Promise<SharedContent | undefined> {
+	const links = await getIndex<ShareLink>('comment', SHARE_LINKS_INDEX_BLOB);
+	const link = links.find((l) => l.token === token);
+	if (!link || !isActive(link)) {
+		return undefined;
+	}
+
+	if (link.targetType === 'photo') {
+		const photo = await getSharedPhoto(link.targetId, token);
+		return photo ? { link, photo } : undefined;
+	}
+
+	const album = await getSharedAlbum(link.targetId, token);
+	return album ? { link, album } : undefined;
+}
+
+/**
+ * Whether a share link lets its holder see a photo: the one shared, or one shown
+ * in the album shared
+ */
+export async function shareLinkGrantsPhoto(token: string, photoId: string): Promise<boolean> {
+	const shared = await getSharedContent(token);
+	return !!(shared?.photo?.id === photoId || shared?.album?.photos.some((p) => p.id === photoId));
+}
@@ -0,0 +1,146 @@
+/**
+ * Storage Ownership
+ * The database is a SQLite file on one instance's disk, while storage can be reached
+ * from anywhere. So the app runs as a single instance: its database claims storage
+ * with a lease blob that it renews while running, and a database on another instance
+ * is refused until the lease runs out.
+ */
+
+import type { Database } from 'better-sqlite3';
+import { getStorage, PreconditionFailedError } from './storage';
+import { newId } from './ids';
+
+const OWNER_BLOB = 'database-owner.json';
+
+// Set in app_meta when the database is created
+const DATABASE_ID_KEY = 'database-id';
+
+// How long a claim holds without being renewed, and how often it is renewed
+const LEASE_MS = 5 * 60 * 1000;
+const RENEW_INTERVAL_MS = 60 * 1000;
+
+interface StorageOwner {
+	databaseId: string;
+	renewedAt: string;
+	// Databases that used storage before this one. Images of their photos may still be
+	// stored, so this database can't tell which images are orphaned.
+	previousDatabaseIds?: string[];
+}
+
+/**
+ * Another instance's database holds storage; this one must not start
+ */
+export class StorageClaimedError extends Error {
+	constructor(public databaseId: string) {
+		super(
+			`Storage is in use by database ${databaseId} on another instance. ` +
+				'The app keeps its data in a local SQLite file and must run as a single instance.'
+		);
+		this.name = 'StorageClaimedError';
+	}
+}
+
+let databaseId: string | null = null;
+let renewing = false;
+
+function getDatabaseId(db: Database): string {
+	const id = db.prepare('SELECT value FROM app_meta WHERE key = ?').pluck().get(DATABASE_ID_KEY) as
+		| string
+		| undefined;
+	if (id) return id;
+
+	const created = newId();
+	db.prepare('INSERT INTO app_meta (key, value) VALUES (?, ?)').run(DATABASE_ID_KEY, created);
+	return created;
+}
+
+async function readOwner(): Promise<{ owner: StorageOwner; etag: string } | null> {
+	const storage = await getStorage();
+	const current = await storage.getBlobVersioned('comment', OWNER_BLOB);
+	return current ? { owner: JSON.parse(current.content), etag: current.etag } : null;
+}
+
+async function writeOwner(owner: StorageOwner, etag: string | null): Promise<void> {
+	const storage = await getStorage();
+	await storage.putBlob(
+		'comment',
+		OWNER_BLOB,
+		JSON.stringify(owner, null, 2),
+		'application/json',
+		etag ? { ifMatch: etag } : { ifNoneMatch: '*' }
+	);
+}
+
+/**
+ * Claim storage for this database, or throw StorageClaimedError while another
+ * database's claim is current. Taking over a lapsed claim records the previous
+ * database, which stops reconciliation from deleting anything.
+ */
+export async function claimStorage(db: Database): Promise<void> {
+	const id = getDatabaseId(db);
+	const current = await readOwner();
+	const owner = current?.owner;
+
+	if (owner && owner.databaseId !== id) {
+		if (Date.now() - Date.parse(owner.renewedAt) < LEASE_MS) {
+			throw new StorageClaimedError(owner.databaseId);
+		}
+		console.warn(`Taking over storage from database ${owner.databaseId}, whose claim has lapsed`);
+	}
+
+	const previousDatabaseIds = owner?.previousDatabaseIds ?? [];
+	if (owner && owner.databaseId !== id) previousDatabaseIds.push(owner.databaseId);
+
+	try {
+		await writeOwner(
+			{
+				databaseId: id,
+				renewedAt: new Date().toISOString(),
+				...(previousDatabaseIds.length > 0 && { previousDatabaseIds })
+			},
+			current?.etag ?? null
+		);
+	} catch (error) {
+		// Another instance claimed it in between
+		if (error instanceof PreconditionFailedError) {
+			throw new StorageClaimedError((await readOwner())?.owner.databaseId ?? 'unknown');
+		}
+		throw error;
+	}
+
+	databaseId = id;
+	scheduleRenewal();
+}
+
+function scheduleRenewal(): void {
+	if (renewing) return;
+	renewing = true;
+
+	const renew = async () => {
+		const current = await readOwner();
+		if (current?.owner.databaseId !== databaseId) {
+			console.error(
+				`Storage has been claimed by database ${current?.owner.databaseId ?? 'unknown'}; ` +
+					'more than one instance of the app is running'
+			);
+			return;
+		}
+		await writeOwner({ ...current.owner, renewedAt: new Date().toISOString() }, current.etag);
+	};
+
+	// Don't keep the process alive just for this
+	setInterval(() => {
+		renew().catch((error) => console.error('Failed to renew the storage claim:', error));
+	}, RENEW_INTERVAL_MS).unref();
+}
+
+/**
+ * Whether this database is the only one that has ever used storage, so any image it
+ * doesn't know of is truly orphaned
+ */
+export async function isSoleStorageOwner(): Promise<boolean> {
+	const current = await readOwner();
+	return (
+		!!databaseId && current?.owner.databaseId === databaseId && !current.owner.previousDatabaseIds?.length
+	);
+}
@@ -0,0 +1,281 @@
+/**
+ * Storage Backend
+ * Common interface for blob storage so db.ts does not depend on a specific provider.
+ * The backend is selected with the STORAGE_DRIVER env var ("azure" or "local").
+ */
+
+import { env } from '$env/dynamic/private';
+import type { Readable } from 'node:stream';
+
+export type StorageContainer = 'photo' | 'comment';
+
+export type BlobContent = string | ArrayBuffer | Uint8Array<ArrayBuffer>;
+
+export interface BlobStream {
+	stream: ReadableStream<Uint8Array>;
+	contentType: string;
+	// In bytes, when the backend knows it up front
+	size?: number;
+}
+
+export interface VersionedBlob {
+	content: string;
+	etag: string;
+}
+
+/**
+ * Preconditions for a write. `ifMatch` requires the blob to still have that ETag,
+ * `ifNoneMatch: '*'` requires that the blob does not exist yet.
+ */
+export interface WriteConditions {
+	ifMatch?: string;
+	ifNoneMatch?: '*';
+}
+
+export interface StorageBackend {
+	/**
+	 * Write a blob, replacing any existing blob with the same name.
+	 * Returns the new ETag; throws PreconditionFailedError if conditions are not met.
+	 */
+	putBlob(
+		container: StorageContainer,
+		blobName: string,
+		content: BlobContent,
+		contentType?: string,
+		conditions?: WriteConditions
+	): Promise<string>;
+
+	/**
+	 * Write a blob from a stream without holding it in memory.
+	 * Returns the number of bytes written.
+	 */
+	putBlobStream(
+		container: StorageContainer,
+		blobName: string,
+		stream: Readable,
+		contentType: string
+	): Promise<number>;
+
+	/** Read a blob as text */
+	getBlob(container: StorageContainer, blobName: string): Promise<string>;
+
+	/** Read a blob as text along with its ETag, or null if it doesn't exist */
+	getBlobVersioned(container: StorageContainer, blobName: string): Promise<VersionedBlob | null>;
+
+	/** Stream a blob's raw bytes; throws BlobNotFoundError if it doesn't exist */
+	getBlobStream(container: StorageContainer, blobName: string): Promise<BlobStream>;
+
+	/** Delete a blob, ignoring blobs that do not exist */
+	deleteBlob(container: StorageContainer, blobName: string): Promise<void>;
+
+	/** List all blob names in a container */
+	listBlobs(container: StorageContainer): Promise<string[]>;
+}
+
+export const PHOTOS_INDEX_BLOB = 'photos-index.json';
+export const USERS_INDEX_BLOB = 'users-index.json';
+export const ALBUMS_INDEX_BLOB = 'albums-index.json';
+export const NOTIFICATIONS_INDEX_BLOB = 'notifications-index.json';
+export const REPORTS_INDEX_BLOB = 'reports-index.json';
+export const MODERATION_LOG_BLOB = 'moderation-log.json';
+export const SHARE_LINKS_INDEX_BLOB = 'share-links-index.json';
+
+export class BlobNotFoundError extends Error {
+	constructor(blobName: string) {
+		super(`Blob not found: ${blobName}`);
+		this.name = 'BlobNotFoundError';
+	}
+}
+
+/**
+ * Thrown by a backend when a conditional write loses against another writer
+ */
+export class PreconditionFailedError extends Error {
+	constructor(blobName: string) {
+		super(`Blob was modified concurrently: ${blobName}`);
+		this.name = 'PreconditionFailedError';
+	}
+}
+
+/**
+ * Thrown when an index update keeps conflicting after all retries
+ */
+export class ConflictError extends Error {
+	constructor(blobName: string) {
+		super(`Could not update ${blobName} due to concurrent modifications`);
+		this.name = 'ConflictError';
+	}
+}
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend
+ */
+export async function getStorage(): Promise<StorageBackend> {
+	if (backend) return backend;
+
+	const driver = (env.STORAGE_DRIVER || 'azure').toLowerCase();
+
+	switch (driver) {
+		case 'azure': {
+			const { azureStorage } = await import('./azure-storage');
+			backend = azureStorage;
+			break;
+		}
+		case 'local': {
+			const { createLocalStorage } = await import('./local-storage');
+			backend = createLocalStorage(env.LOCAL_STORAGE_DIR || '.data/storage');
+			break;
+		}
+		default:
+			throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+	}
+
+	return backend;
+}
+
+// Index blobs as last read or written by this process, null for ones that don't exist.
+// The app runs as a single instance (see storage-owner.ts), so nothing else changes
+// them in between.
+const indexCache = new Map<string, string | null>();
+
+/**
+ * Read a JSON index blob, returning an empty list if it doesn't exist
+ */
+export async function getIndex<T>(container: StorageContainer, blobName: string): Promise<T[]> {
+	const key = `${container}/${blobName}`;
+	if (!indexCache.has(key)) {
+		const storage = await getStorage();
+		const blob = await storage.getBlobVersioned(container, blobName);
+		indexCache.set(key, blob?.content ?? null);
+	}
+
+	// Parsed afresh each time, so callers can't change what others see
+	const content = indexCache.get(key);
+	return content ? JSON.parse(content) : [];
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Pending writes per index blob, so updates within this process run one at a time
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function enqueueWrite<T>(key: string, task: () => Promise<T>): Promise<T> {
+	const previous = writeQueues.get(key) ?? Promise.resolve();
+	const next = previous.catch(() => {}).then(task);
+	writeQueues.set(key, next);
+	// Drop the entry once idle so the map doesn't grow with finished chains
+	next.finally(() => {
+		if (writeQueues.get(key) === next) writeQueues.delete(key);
+	}).catch(() => {});
+	return next;
+}
+
+/**
+ * Apply a change to a JSON index blob using optimistic locking.
+ *
+ * The index is re-read, `mutate` is applied to the fresh copy and the result is written
+ * back with If-Match. When another writer got there first the whole cycle is retried,
+ * so `mutate` may run more than once and must only touch the list it is given.
+ * Nothing is written if `mutate` leaves the list unchanged.
+ */
+export function updateIndex<T, R>(
+	container: StorageContainer,
+	blobName: string,
+	mutate: (items: T[]) => R
+): Promise<{ items: T[]; result: R }> {
+	const key = `${container}/${blobName}`;
+
+	return enqueueWrite(key, async () => {
+		const storage = await getStorage();
+
+		for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+			const current = await storage.getBlobVersioned(container, blobName);
+			indexCache.set(key, current?.content ?? null);
+
+			const items: T[] = current ? JSON.parse(current.content) : [];
+			const before = JSON.stringify(items);
+
+			const result = mutate(items);
+
+			if (JSON.stringify(items) === before) {
+				return { items, result };
+			}
+
+			const content = JSON.stringify(items, null, 2);
+			try {
+				await storage.putBlob(
+					container,
+					blobName,
+					content,
+					'application/json',
+					current ? { ifMatch: current.etag } : { ifNoneMatch: '*' }
+				);
+				indexCache.set(key, content);
+				return { items, result };
+			} catch (error) {
+				if (!(error instanceof PreconditionFailedError)) throw error;
+
+				console.warn(`Conflict writing ${blobName} (attempt ${attempt}), retrying`);
+				await new Promise((resolve) => setTimeout(resolve, Math.random() * 50 * attempt));
+			}
+		}
+
+		throw new ConflictError(blobName);
+	});
+}
+
+const extensionsByContentType: Record<string, string> = {
+	'image/jpeg': 'jpg',
+	'image/jpg': 'jpg',
+	'image/png': 'png',
+	'image/gif': 'gif',
+	'image/webp': 'webp'
+};
+
+const contentTypesByExtension: Record<string, string> = {
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	json: 'application/json'
+};
+
+/**
+ * Get file extension from content type
+ */
+export function getExtensionFromContentType(contentType: string): string {
+	return extensionsByContentType[contentType] || 'jpg';
+}
+
+/**
+ * Guess content type from a blob name's extension
+ */
+export function getContentTypeFromBlobName(blobName: string): string {
+	const extension = blobName.split('.').pop()?.toLowerCase() || '';
+	return contentTypesByExtension[extension] || 'application/octet-stream';
+}
+
+/**
+ * Blob name used for a photo's image
+ */
+export function getPhotoBlobName(photoId: string, contentType: string): string {
+	return `photo-${photoId}.${getExtensionFromContentType(contentType)}`;
+}
+
+/**
+ * Blob name used for a resized variant of a photo
+ */
+export function getVariantBlobName(photoId: string, variant: string, contentType: string): string {
+	return `photo-${photoId}-${variant}.${getExtensionFromContentType(contentType)}`;
+}
+
+/**
+ * Extract the blob name from a photo URL stored by older versions (Azure or local)
+ */
+export function getBlobNameFromUrl(url: string): string | null {
+	const match = url.match(/\/photo\/([^/?#]+)/);
+	return match ? decodeURIComponent(match[1]) : null;
+}
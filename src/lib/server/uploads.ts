@@ -0,0 +1,268 @@
+/**
+ * Upload Handling
+ * Streams multipart request bodies and validates image content without buffering whole files
+ */
+
+import busboy from 'busboy';
+import { env } from '$env/dynamic/private';
+import { PassThrough, Readable, pipeline } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { MAX_UPLOAD_BYTES, formatFileSize } from '$lib/utils';
+
+const DEFAULT_UPLOAD_QUOTA_MB = 1024;
+
+/**
+ * An upload the client got wrong (bad type, too large, malformed form).
+ * `status` is the HTTP status to respond with.
+ */
+export class UploadError extends Error {
+	constructor(
+		message: string,
+		public status: number = 400
+	) {
+		super(message);
+		this.name = 'UploadError';
+	}
+}
+
+export interface MultipartUpload {
+	fields: Record<string, string>;
+	file: {
+		fieldName: string;
+		filename: string;
+		stream: Readable;
+	} | null;
+}
+
+/**
+ * Parse a multipart/form-data request up to the first file part.
+ *
+ * Resolves as soon as the file starts arriving, with every field sent before it, so the
+ * file can be streamed onward while it is still being received. Clients must therefore
+ * send text fields before the file.
+ */
+export function readMultipartUpload(request: Request): Promise<MultipartUpload> {
+	const contentType = request.headers.get('content-type') || '';
+	if (!contentType.startsWith('multipart/form-data') || !request.body) {
+		return Promise.reject(new UploadError('Expected a multipart/form-data body'));
+	}
+
+	return new Promise((resolve, reject) => {
+		const fields: Record<string, string> = {};
+		let settled = false;
+		let fileStream: Readable | null = null;
+
+		const parser = busboy({
+			headers: { 'content-type': contentType },
+			limits: { files: 1, fields: 20, fieldSize: 64 * 1024 }
+		});
+
+		parser.on('field', (name, value) => {
+			fields[name] = value;
+		});
+
+		parser.on('file', (fieldName, stream, info) => {
+			if (settled) {
+				stream.resume();
+				return;
+			}
+			settled = true;
+			fileStream = stream;
+			resolve({ fields, file: { fieldName, filename: info.filename, stream } });
+		});
+
+		parser.on('close', () => {
+			if (!settled) {
+				settled = true;
+				resolve({ fields, file: null });
+			}
+		});
+
+		parser.on('error', (error) => {
+			if (!settled) {
+				settled = true;
+				reject(new UploadError('Malformed multipart body'));
+			} else {
+				console.error('Multipart parsing failed after file started:', error);
+			}
+		});
+
+		// pipeline passes on the body's errors, such as the client aborting mid-upload;
+		// busboy alone would leave the file stream waiting for data that never comes
+		const body = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>);
+		pipeline(body, parser, (error) => {
+			if (!error) return;
+
+			const failure = new UploadError('The upload was interrupted');
+			if (!settled) {
+				settled = true;
+				reject(failure);
+			} else {
+				fileStream?.destroy(failure);
+			}
+		});
+	});
+}
+
+/**
+ * Detect an image type from its leading bytes. Returns the MIME type or null.
+ */
+export function sniffImageType(header: Uint8Array): string | null {
+	const startsWith = (bytes: number[], offset = 0) =>
+		bytes.every((byte, i) => header[offset + i] === byte);
+
+	if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+	if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+	if (startsWith([0x47, 0x49, 0x46, 0x38]) && (header[4] === 0x37 || header[4] === 0x39) && header[5] === 0x61) {
+		return 'image/gif';
+	}
+	if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+		return 'image/webp';
+	}
+
+	return null;
+}
+
+const SNIFF_BYTES = 12;
+
+export interface UploadLimit {
+	maxBytes: number;
+	// The error for an image larger than maxBytes
+	message: string;
+}
+
+const FILE_LIMIT: UploadLimit = {
+	maxBytes: MAX_UPLOAD_BYTES,
+	message: `File size must be less than ${formatFileSize(MAX_UPLOAD_BYTES)}`
+};
+
+export interface UploadLimits {
+	// For the uploaded image
+	file: UploadLimit;
+	// For the image and its resized copies together; null without a quota
+	storage: UploadLimit | null;
+}
+
+/**
+ * What a user may upload next: the image is held to the per-file limit, or to what
+ * is left of their storage quota (UPLOAD_QUOTA_MB, 0 for none) if that is less, and
+ * the image with its resized copies to what is left. Throws UploadError once the
+ * quota is used up.
+ */
+export function getUploadLimits(usedBytes: number): UploadLimits {
+	const quotaMb = env.UPLOAD_QUOTA_MB ? Number(env.UPLOAD_QUOTA_MB) : DEFAULT_UPLOAD_QUOTA_MB;
+	if (!(quotaMb > 0)) return { file: FILE_LIMIT, storage: null };
+
+	const quota = Math.floor(quotaMb * 1024 * 1024);
+	const remaining = quota - usedBytes;
+	if (remaining <= 0) {
+		throw new UploadError(
+			`You have used all ${formatFileSize(quota)} of your storage. Delete some photos and empty your trash to upload more.`,
+			413
+		);
+	}
+
+	return {
+		file:
+			remaining < MAX_UPLOAD_BYTES
+				? {
+						maxBytes: remaining,
+						message: `This photo would go over your storage quota; you have ${formatFileSize(remaining)} left`
+					}
+				: FILE_LIMIT,
+		storage: {
+			maxBytes: remaining,
+			message: `This photo and its resized copies would go over your storage quota; you have ${formatFileSize(remaining)} left`
+		}
+	};
+}
+
+// Each user's latest upload; the next one waits for it
+const userUploads = new Map<string, Promise<unknown>>();
+
+/**
+ * Run one user's uploads one at a time, so each checks their quota against the
+ * storage the previous one ended up using
+ */
+export async function runUserUpload<T>(userId: string, upload: () => Promise<T>): Promise<T> {
+	const previous = userUploads.get(userId) ?? Promise.resolve();
+	const current = previous.catch(() => {}).then(upload);
+	userUploads.set(userId, current);
+
+	try {
+		return await current;
+	} finally {
+		if (userUploads.get(userId) === current) userUploads.delete(userId);
+	}
+}
+
+/**
+ * Validate an image stream: sniff its real type from the first bytes and enforce the
+ * size limit while it flows. Returns the detected content type and a stream that
+ * yields the full, unchanged content (and errors with UploadError if it grows too large).
+ */
+export async function inspectImageStream(
+	source: Readable,
+	limit: UploadLimit = FILE_LIMIT
+): Promise<{ contentType: string; stream: Readable }> {
+	const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+	const head: Buffer[] = [];
+	let headLength = 0;
+	let exhausted = false;
+
+	while (headLength < SNIFF_BYTES) {
+		const { value, done } = await iterator.next();
+		if (done) {
+			exhausted = true;
+			break;
+		}
+		head.push(value);
+		headLength += value.length;
+	}
+
+	const contentType = sniffImageType(Buffer.concat(head));
+	if (!contentType) {
+		source.destroy();
+		throw new UploadError('Please upload a valid image file (JPEG, PNG, GIF, or WebP)', 415);
+	}
+
+	async function* replay() {
+		let total = 0;
+		const check = (chunk: Buffer) => {
+			total += chunk.length;
+			if (total > limit.maxBytes) {
+				throw new UploadError(limit.message, 413);
+			}
+			return chunk;
+		};
+
+		for (const chunk of head) yield check(chunk);
+		if (exhausted) return;
+
+		while (true) {
+			const { value, done } = await iterator.next();
+			if (done) return;
+			yield check(value);
+		}
+	}
+
+	return { contentType, stream: Readable.from(replay(), { objectMode: false }) };
+}
+
+/**
+ * Split a stream so two consumers can read it; errors reach both branches
+ */
+export function teeStream(source: Readable): [Readable, Readable] {
+	const branches = [new PassThrough(), new PassThrough()] as const;
+
+	for (const branch of branches) {
+		source.pipe(branch);
+		// Each reader sees the error; this covers a failure before a reader has started
+		branch.on('error', () => {});
+	}
+	source.on('error', (error) => {
+		for (const branch of branches) branch.destroy(error);
+	});
+
+	return [branches[0], branches[1]];
+}
@@ -0,0 +1,50 @@
+/**
+ * Request Validation (server side)
+ * Reads a request's JSON body or query string through one of the schemas in
+ * $lib/validation, and turns failures into 400 responses
+ */
+
+import { json } from '@sveltejs/kit';
+import {
+	validate,
+	type FieldError,
+	type Schema,
+	type ValidationErrorBody,
+	type ValidationResult
+} from '$lib/validation';
+
+/**
+ * Validate a JSON body. An empty body is read as `{}`, so schemas whose fields are
+ * all optional accept it.
+ */
+export async function readJson<T>(request: Request, schema: Schema<T>): Promise<ValidationResult<T>> {
+	let body: unknown = {};
+	try {
+		const text = await request.text();
+		if (text.trim()) body = JSON.parse(text);
+	} catch {
+		return { ok: false, errors: [{ field: 'body', message: 'Request body must be valid JSON' }] };
+	}
+
+	return validate(schema, body);
+}
+
+/**
+ * Validate query parameters; blank ones count as left out
+ */
+export function readQuery<T>(params: URLSearchParams, schema: Schema<T>): ValidationResult<T> {
+	const query: Record<string, string> = {};
+	for (const [key, value] of params) {
+		if (value) query[key] = value;
+	}
+
+	return validate(schema, query);
+}
+
+/**
+ * The 400 response for a request that failed validation
+ */
+export function invalidRequest(errors: FieldError[]): Response {
+	const body: ValidationErrorBody = { error: errors[0].message, errors };
+	return json(body, { status: 400 });
+}
@@ -0,0 +1,81 @@
+import { writable } from 'svelte/store';
+import type { AlbumDetail, AlbumSummary, AlbumUpdate } from '$lib/types';
+
+// The signed-in user's albums, for "add to album" pickers
+export const myAlbums = writable<AlbumSummary[]>([]);
+
+async function albumRequest(
+  path: string,
+  method: string,
+  body?: unknown
+): Promise<{ album?: AlbumDetail; error?: string }> {
+  try {
+    const response = await fetch(`/api/albums${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { error: data.error || 'Request failed' };
+    }
+
+    return { album: data };
+  } catch (error) {
+    console.error(`Failed to ${method} album:`, error);
+    return { error: 'Network error, please try again' };
+  }
+}
+
+/**
+ * Keep `myAlbums` in step with an album the user just changed
+ */
+function syncMyAlbum(album: AlbumDetail) {
+  const { photos: _photos, ...summary } = album;
+  myAlbums.update((albums) =>
+    albums.some((a) => a.id === album.id)
+      ? albums.map((a) => (a.id === album.id ? summary : a))
+      : [summary, ...albums]
+  );
+}
+
+export async function loadMyAlbums(userId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/albums?userId=${encodeURIComponent(userId)}`);
+    if (!response.ok) throw new Error('Failed to load albums');
+    myAlbums.set(await response.json());
+  } catch (error) {
+    console.error('Failed to load albums:', error);
+  }
+}
+
+export async function createAlbum(title: string, description?: string) {
+  const result = await albumRequest('', 'POST', { title, description });
+  if (result.album) syncMyAlbum(result.album);
+  return result;
+}
+
+export async function updateAlbum(id: string, updates: AlbumUpdate) {
+  const result = await albumRequest(`/${id}`, 'PATCH', updates);
+  if (result.album) syncMyAlbum(result.album);
+  return result;
+}
+
+export async function deleteAlbum(id: string): Promise<string | null> {
+  const result = await albumRequest(`/${id}`, 'DELETE');
+  if (!result.error) myAlbums.update((albums) => albums.filter((a) => a.id !== id));
+  return result.error ?? null;
+}
+
+export async function addPhotoToAlbum(id: string, photoId: string) {
+  const result = await albumRequest(`/${id}/photos`, 'POST', { photoId });
+  if (result.album) syncMyAlbum(result.album);
+  return result;
+}
+
+export async function removePhotoFromAlbum(id: string, photoId: string) {
+  const result = await albumRequest(`/${id}/photos`, 'DELETE', { photoId });
+  if (result.album) syncMyAlbum(result.album);
+  return result;
+}
@@ -0,0 +1,41 @@
+import type { User, UserProfile } from '$lib/types';
+
+export type FollowList = 'followers' | 'following';
+
+/**
+ * Follow or unfollow a user; resolves to their updated profile or an error message
+ */
+export async function setFollowing(
+  userId: string,
+  follow: boolean
+): Promise<{ profile?: UserProfile; error?: string }> {
+  try {
+    const response = await fetch(`/api/users/${userId}/follow`, {
+      method: follow ? 'POST' : 'DELETE'
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { error: data.error || 'Request failed' };
+    }
+
+    return { profile: data };
+  } catch (error) {
+    console.error(`Failed to ${follow ? 'follow' : 'unfollow'} user:`, error);
+    return { error: 'Network error, please try again' };
+  }
+}
+
+/**
+ * A user's followers, or the users they follow, most recent first
+ */
+export async function loadFollowList(userId: string, list: FollowList): Promise<User[]> {
+  try {
+    const response = await fetch(`/api/users/${userId}/${list}`);
+    if (!response.ok) throw new Error(`Failed to load ${list}`);
+    return await response.json();
+  } catch (error) {
+    console.error(`Failed to load ${list}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,49 @@
+import type { ContentModerationAction, ReportReason, ReportTargetType } from '$lib/types';
+
+/**
+ * Send a moderation request. Returns an error message, or null on success.
+ */
+async function moderationRequest(path: string, method: string, body?: unknown): Promise<string | null> {
+  try {
+    const response = await fetch(`/api/${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {})
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return data.error || 'Request failed';
+    }
+
+    return null;
+  } catch (error) {
+    console.error(`Failed to ${method} ${path}:`, error);
+    return 'Network error, please try again';
+  }
+}
+
+export function reportContent(
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<string | null> {
+  return moderationRequest('reports', 'POST', { targetType, targetId, reason, details });
+}
+
+export function moderateContent(
+  targetType: ReportTargetType,
+  targetId: string,
+  action: ContentModerationAction
+): Promise<string | null> {
+  return moderationRequest(`moderation/${targetType}s/${targetId}`, 'POST', { action });
+}
+
+export function dismissReport(reportId: string): Promise<string | null> {
+  return moderationRequest(`moderation/reports/${reportId}/dismiss`, 'POST');
+}
+
+export function moderateUser(userId: string, action: 'ban' | 'unban'): Promise<string | null> {
+  return moderationRequest(`moderation/users/${userId}`, 'POST', { action });
+}
@@ -0,0 +1,61 @@
+import { writable } from 'svelte/store';
+import type { NotificationList } from '$lib/types';
+
+// How often to check for new notifications while signed in
+const POLL_INTERVAL_MS = 60_000;
+
+// The signed-in user's latest notifications
+export const notifications = writable<NotificationList>({ notifications: [], unreadCount: 0 });
+
+export async function loadNotifications(): Promise<void> {
+  try {
+    const response = await fetch('/api/notifications');
+    if (!response.ok) throw new Error('Failed to load notifications');
+    notifications.set(await response.json());
+  } catch (error) {
+    console.error('Failed to load notifications:', error);
+  }
+}
+
+/**
+ * Mark the given notifications, or all of them, as read
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const readAt = new Date().toISOString();
+  notifications.update((list) => ({
+    notifications: list.notifications.map((n) =>
+      !n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n
+    ),
+    unreadCount: ids
+      ? list.notifications.filter((n) => !n.readAt && !ids.includes(n.id)).length
+      : 0
+  }));
+
+  try {
+    const response = await fetch('/api/notifications/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids })
+    });
+    if (!response.ok) throw new Error('Failed to mark notifications as read');
+
+    const { unreadCount } = await response.json();
+    notifications.update((list) => ({ ...list, unreadCount }));
+  } catch (error) {
+    console.error('Failed to mark notifications as read:', error);
+    await loadNotifications();
+  }
+}
+
+/**
+ * Load notifications now and keep them fresh until the returned function is called
+ */
+export function watchNotifications(): () => void {
+  loadNotifications();
+  const timer = setInterval(loadNotifications, POLL_INTERVAL_MS);
+
+  return () => {
+    clearInterval(timer);
+    notifications.set({ notifications: [], unreadCount: 0 });
+  };
+}
@@ -1,79 +1,445 @@
-import { writable, derived } from 'svelte/store';
-import type { Photo } from '$lib/types';
+import { writable, derived, get } from 'svelte/store';
+import type {
+  Comment,
+  Photo,
+  PhotoFeed,
+  PhotoPage,
+  PhotoQuery,
+  PhotoSort,
+  PhotoUpdate,
+  ReactionCount,
+  ReactionType,
+  LiveEvent,
+  SearchPage
+} from '$lib/types';
+import { REACTION_TYPES } from '$lib/utils';
+import { user } from './user';
+
+export type PhotoFilters = Pick<PhotoQuery, 'userId' | 'tag' | 'from' | 'to'>;
 
 export interface PhotosState {
   photos: Photo[];
   loading: boolean;
   hasMore: boolean;
-  offset: number;
+  cursor: string | null;
+  sort: PhotoSort;
+  feed: PhotoFeed;
+  filters: PhotoFilters;
+  // When set, the list shows ranked search results instead of the feed
+  query: string;
+  total: number | null;
   selectedPhoto: Photo | null;
   isModalOpen: boolean;
 }
 
+const PAGE_SIZE = 10;
+
+// Delay before reopening the live connection after it fails, doubled on each failure
+const RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
 const initialState: PhotosState = {
   photos: [],
   loading: false,
   hasMore: true,
-  offset: 0,
+  cursor: null,
+  sort: 'newest',
+  feed: 'everyone',
+  filters: {},
+  query: '',
+  total: null,
   selectedPhoto: null,
   isModalOpen: false
 };
 
-function createPhotosStore() {
-  const { subscribe, set, update } = writable<PhotosState>(initialState);
+/**
+ * Apply one reaction change to a tally locally, as the server would
+ */
+function withReaction(reactions: ReactionCount[] = [], type: ReactionType, reacted: boolean): ReactionCount[] {
+  const existing = reactions.find((r) => r.type === type);
+  if ((existing?.reacted ?? false) === reacted) return reactions;
+
+  const count = (existing?.count ?? 0) + (reacted ? 1 : -1);
+  const others = reactions.filter((r) => r.type !== type);
+  const next = count > 0 ? [...others, { type, count, reacted }] : others;
+
+  return next.sort((a, b) => REACTION_TYPES.indexOf(a.type) - REACTION_TYPES.indexOf(b.type));
+}
+
+/**
+ * Replace the comments of a photo wherever it is shown
+ */
+function updateComments(
+  state: PhotosState,
+  photoId: string,
+  change: (comments: Comment[]) => Comment[]
+): PhotosState {
+  const apply = (photo: Photo): Photo =>
+    photo.id === photoId ? { ...photo, comments: change(photo.comments) } : photo;
 
   return {
-    subscribe,
+    ...state,
+    photos: state.photos.map(apply),
+    selectedPhoto: state.selectedPhoto ? apply(state.selectedPhoto) : null
+  };
+}
 
-    async loadPhotos(reset: boolean = false) {
-      update((state: PhotosState) => ({ ...state, loading: true }));
+/**
+ * Replace the reactions of a photo, or of one of its comments, wherever it is shown
+ */
+function updateReactions(
+  state: PhotosState,
+  photoId: string,
+  commentId: string | null,
+  change: (reactions: ReactionCount[] | undefined) => ReactionCount[]
+): PhotosState {
+  const apply = (photo: Photo): Photo => {
+    if (photo.id !== photoId) return photo;
+    if (!commentId) return { ...photo, reactions: change(photo.reactions) };
 
-      try {
-        const currentState = initialState;
-        update((s: PhotosState) => {
-          currentState.offset = s.offset;
-          return s;
-        });
-        const offset = reset ? 0 : currentState.offset;
-        const response = await fetch(`/api/photos?offset=${offset}&limit=10`);
-        const data = await response.json();
+    return {
+      ...photo,
+      comments: photo.comments.map((c) =>
+        c.id === commentId ? { ...c, reactions: change(c.reactions) } : c
+      )
+    };
+  };
 
-        update((state: PhotosState) => ({
+  return {
+    ...state,
+    photos: state.photos.map(apply),
+    selectedPhoto: state.selectedPhoto ? apply(state.selectedPhoto) : null
+  };
+}
+
+/**
+ * Whether a photo uploaded just now belongs at the top of the current list
+ */
+function showsNewUploads(state: PhotosState, photo: Photo): boolean {
+  const { userId, tag, from, to } = state.filters;
+  // The following feed would need to know who we follow; it picks them up on reload
+  return (
+    !state.query &&
+    state.feed === 'everyone' &&
+    state.sort === 'newest' &&
+    !tag &&
+    !from &&
+    !to &&
+    (!userId || userId === photo.userId)
+  );
+}
+
+/**
+ * Merge a change made by someone else into the list and the open photo. Events are
+ * shaped for an anonymous viewer, so our own reaction flags are kept.
+ */
+function applyLiveEvent(state: PhotosState, event: LiveEvent): PhotosState {
+  switch (event.type) {
+    case 'photo:created':
+      if (state.photos.some((p) => p.id === event.photo.id) || !showsNewUploads(state, event.photo)) {
+        return state;
+      }
+      return { ...state, photos: [event.photo, ...state.photos] };
+
+    case 'photo:updated': {
+      const apply = (photo: Photo): Photo =>
+        photo.id === event.photo.id
+          ? { ...event.photo, reactions: photo.reactions, comments: photo.comments }
+          : photo;
+
+      return {
+        ...state,
+        photos: state.photos.map(apply),
+        selectedPhoto: state.selectedPhoto ? apply(state.selectedPhoto) : null
+      };
+    }
+
+    case 'photo:deleted': {
+      const isOpen = state.selectedPhoto?.id === event.photoId;
+      return {
+        ...state,
+        photos: state.photos.filter((p) => p.id !== event.photoId),
+        selectedPhoto: isOpen ? null : state.selectedPhoto,
+        isModalOpen: isOpen ? false : state.isModalOpen
+      };
+    }
+
+    case 'photo:unlisted':
+      // Whether we can still see it depends on who we are; connectLive asks the server
+      return state;
+
+    case 'comment:added':
+      return updateComments(state, event.photoId, (comments) =>
+        comments.some((c) => c.id === event.comment.id) ? comments : [...comments, event.comment]
+      );
+
+    case 'comment:updated':
+      return updateComments(state, event.photoId, (comments) =>
+        comments.map((c) =>
+          c.id === event.comment.id ? { ...event.comment, reactions: c.reactions } : c
+        )
+      );
+
+    case 'comment:deleted':
+      return updateComments(state, event.photoId, (comments) =>
+        comments.map((c) => (c.id === event.comment.id ? event.comment : c))
+      );
+  }
+}
+
+function createPhotosStore() {
+  const store = writable<PhotosState>(initialState);
+  const { subscribe, set, update } = store;
+
+  // Bumped on every reset so responses for an abandoned feed are dropped
+  let generation = 0;
+
+  async function loadPhotos(reset: boolean = false) {
+    if (reset) {
+      generation++;
+    } else if (get(store).loading || !get(store).hasMore) {
+      return;
+    }
+
+    const requestGeneration = generation;
+    const { cursor, sort, feed, filters, query } = get(store);
+    update((state: PhotosState) => ({ ...state, loading: true }));
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (!reset && cursor) params.set('cursor', cursor);
+
+      if (query) {
+        params.set('q', query);
+      } else {
+        params.set('sort', sort);
+        if (feed !== 'everyone') params.set('feed', feed);
+        for (const [key, value] of Object.entries(filters)) {
+          if (value) params.set(key, value);
+        }
+      }
+
+      const response = await fetch(`/api/${query ? 'search' : 'photos'}?${params}`);
+      if (!response.ok) throw new Error('Failed to load photos');
+      const data: PhotoPage | SearchPage = await response.json();
+
+      if (requestGeneration !== generation) return;
+
+      update((state: PhotosState) => {
+        // Photos added locally (e.g. our own upload) may also arrive in a later page
+        const seen = new Set(reset ? [] : state.photos.map((p: Photo) => p.id));
+        const fresh = data.photos.filter((p: Photo) => !seen.has(p.id));
+
+        return {
           ...state,
-          photos: reset ? data.photos : [...state.photos, ...data.photos],
+          photos: reset ? data.photos : [...state.photos, ...fresh],
           hasMore: data.hasMore,
-          offset: offset + data.photos.length,
+          cursor: data.nextCursor,
           loading: false
-        }));
-      } catch (error) {
-        console.error('Failed to load photos:', error);
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load photos:', error);
+      if (requestGeneration === generation) {
         update((state: PhotosState) => ({ ...state, loading: false }));
       }
+    }
+  }
+
+  /**
+   * Show the reaction change immediately, then reconcile with the server's tally
+   * (or roll back if the request fails)
+   */
+  async function sendReaction(
+    photoId: string,
+    commentId: string | null,
+    type: ReactionType,
+    reacted: boolean
+  ) {
+    const state = get(store);
+    const photo = state.photos.find((p) => p.id === photoId) ?? state.selectedPhoto;
+    const target = commentId ? photo?.comments.find((c) => c.id === commentId) : photo;
+    const previous = target?.reactions ?? [];
+
+    update((s: PhotosState) =>
+      updateReactions(s, photoId, commentId, (reactions) => withReaction(reactions, type, reacted))
+    );
+
+    try {
+      const url = commentId
+        ? `/api/comments/${commentId}/reactions`
+        : `/api/photos/${photoId}/reactions`;
+      const response = await fetch(url, {
+        method: reacted ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type })
+      });
+
+      if (!response.ok) throw new Error('Failed to update reaction');
+
+      const { reactions } = await response.json();
+      update((s: PhotosState) => updateReactions(s, photoId, commentId, () => reactions));
+      return true;
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+      update((s: PhotosState) => updateReactions(s, photoId, commentId, () => previous));
+      return false;
+    }
+  }
+
+  /**
+   * Once a photo stops being public, keep it in the list only if we may still list
+   * it (our own, or followers-only from someone we follow), and open only if we may
+   * still see it
+   */
+  async function recheckPhoto(photoId: string) {
+    const state = get(store);
+    if (!state.photos.some((p) => p.id === photoId) && state.selectedPhoto?.id !== photoId) return;
+
+    try {
+      const response = await fetch(`/api/photos/${photoId}`);
+      if (!response.ok && response.status !== 404) throw new Error('Failed to load photo');
+
+      const photo: Photo | null = response.ok ? await response.json() : null;
+      const listed = photo && (photo.visibility !== 'unlisted' || photo.userId === get(user)?.id) ? photo : null;
+
+      update((s: PhotosState) => {
+        const isOpen = s.selectedPhoto?.id === photoId;
+        return {
+          ...s,
+          photos: listed
+            ? s.photos.map((p) => (p.id === photoId ? listed : p))
+            : s.photos.filter((p) => p.id !== photoId),
+          selectedPhoto: isOpen ? photo : s.selectedPhoto,
+          isModalOpen: isOpen ? !!photo && s.isModalOpen : s.isModalOpen
+        };
+      });
+    } catch (error) {
+      console.error('Failed to check photo:', error);
+    }
+  }
+
+  return {
+    subscribe,
+
+    loadPhotos,
+
+    /**
+     * Apply other people's changes as they happen, until the returned function is
+     * called. Reconnects with backoff and resumes from the last event received; if
+     * that's no longer possible the list is reloaded.
+     */
+    connectLive(): () => void {
+      let source: EventSource | null = null;
+      let lastEventId = '';
+      let delay = RECONNECT_DELAY_MS;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let closed = false;
+
+      function connect() {
+        const url = lastEventId
+          ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}`
+          : '/api/events';
+        source = new EventSource(url);
+
+        source.onopen = () => {
+          delay = RECONNECT_DELAY_MS;
+        };
+
+        source.onmessage = (message: MessageEvent<string>) => {
+          lastEventId = message.lastEventId || lastEventId;
+          const event: LiveEvent = JSON.parse(message.data);
+          update((state: PhotosState) => applyLiveEvent(state, event));
+          if (event.type === 'photo:unlisted') recheckPhoto(event.photoId);
+        };
+
+        source.addEventListener('reset', (message: MessageEvent<string>) => {
+          lastEventId = message.lastEventId;
+          loadPhotos(true);
+        });
+
+        // EventSource retries dropped connections itself, but gives up on HTTP errors
+        source.onerror = () => {
+          if (source?.readyState !== EventSource.CLOSED || closed) return;
+
+          retryTimer = setTimeout(connect, delay);
+          delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+        };
+      }
+
+      connect();
+
+      return () => {
+        closed = true;
+        clearTimeout(retryTimer);
+        source?.close();
+      };
+    },
+
+    reactToPhoto(photoId: string, type: ReactionType, reacted: boolean) {
+      return sendReaction(photoId, null, type, reacted);
+    },
+
+    reactToComment(photoId: string, commentId: string, type: ReactionType, reacted: boolean) {
+      return sendReaction(photoId, commentId, type, reacted);
+    },
+
+    setSort(sort: PhotoSort) {
+      update((state: PhotosState) => ({ ...state, sort }));
+      return loadPhotos(true);
     },
 
-    async addPhoto(formData: FormData) {
+    setFilters(filters: PhotoFilters) {
+      update((state: PhotosState) => ({ ...state, feed: 'everyone', filters, query: '' }));
+      return loadPhotos(true);
+    },
+
+    /**
+     * Show everyone's photos or only those from the people we follow, unfiltered
+     */
+    setFeed(feed: PhotoFeed) {
+      update((state: PhotosState) => ({ ...state, feed, filters: {}, query: '' }));
+      return loadPhotos(true);
+    },
+
+    /**
+     * Show search results for a query, or the unfiltered feed for an empty one
+     */
+    search(query: string) {
+      update((state: PhotosState) => ({ ...state, feed: 'everyone', filters: {}, query: query.trim() }));
+      return loadPhotos(true);
+    },
+
+    /**
+     * Upload a photo. Returns an error message, or null once it's added.
+     */
+    async addPhoto(formData: FormData): Promise<string | null> {
       try {
         const response = await fetch('/api/photos', {
           method: 'POST',
           body: formData
         });
 
-        if (!response.ok) throw new Error('Failed to upload photo');
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          return data.error || 'Failed to upload photo';
+        }
 
-        const newPhoto = await response.json();
+        const newPhoto: Photo = await response.json();
+        // The live update for our own upload may have arrived first
         update((state: PhotosState) => ({
           ...state,
-          photos: [newPhoto, ...state.photos]
+          photos: [newPhoto, ...state.photos.filter((p) => p.id !== newPhoto.id)]
         }));
 
-        return true;
+        return null;
       } catch (error) {
         console.error('Failed to add photo:', error);
-        return false;
+        return 'Network error, please try again';
       }
     },
 
-    async updatePhoto(id: string, updates: { title?: string; description?: string }) {
+    async updatePhoto(id: string, updates: PhotoUpdate) {
       try {
         const response = await fetch(`/api/photos/${id}`, {
           method: 'PATCH',
@@ -119,30 +485,86 @@ function createPhotosStore() {
       }
     },
 
-    async addComment(photoId: string, content: string) {
+    /**
+     * Post a comment or reply. Returns an error message, or null once it's added.
+     */
+    async addComment(photoId: string, content: string, parentId?: string): Promise<string | null> {
       try {
         const response = await fetch('/api/comments', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ photoId, content })
+          body: JSON.stringify({ photoId, content, parentId })
         });
 
-        if (!response.ok) throw new Error('Failed to add comment');
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          return data.error || 'Failed to add comment';
+        }
 
-        const newComment = await response.json();
-        update((state: PhotosState) => ({
-          ...state,
-          photos: state.photos.map((p: Photo) =>
-            p.id === photoId ? { ...p, comments: [...p.comments, newComment] } : p
-          ),
-          selectedPhoto: state.selectedPhoto?.id === photoId
-            ? { ...state.selectedPhoto, comments: [...state.selectedPhoto.comments, newComment] }
-            : state.selectedPhoto
-        }));
+        const newComment: Comment = await response.json();
+        update((state: PhotosState) =>
+          updateComments(state, photoId, (comments) => [
+            ...comments.filter((c) => c.id !== newComment.id),
+            newComment
+          ])
+        );
 
-        return true;
+        return null;
       } catch (error) {
         console.error('Failed to add comment:', error);
+        return 'Network error, please try again';
+      }
+    },
+
+    async editComment(photoId: string, commentId: string, content: string) {
+      try {
+        const response = await fetch(`/api/comments/${commentId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content })
+        });
+
+        if (!response.ok) throw new Error('Failed to edit comment');
+
+        const updated: Comment = await response.json();
+        update((state: PhotosState) =>
+          updateComments(state, photoId, (comments) =>
+            comments.map((c) => (c.id === commentId ? updated : c))
+          )
+        );
+
+        return true;
+      } catch (error) {
+        console.error('Failed to edit comment:', error);
+        return false;
+      }
+    },
+
+    async deleteComment(photoId: string, commentId: string) {
+      try {
+        const response = await fetch('/api/comments', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ commentId })
+        });
+
+        if (!response.ok) throw new Error('Failed to delete comment');
+
+        // Mirror the server's placeholder so replies stay attached
+        const deletedAt = new Date().toISOString();
+        update((state: PhotosState) =>
+          updateComments(state, photoId, (comments) =>
+            comments.map((c) =>
+              c.id === commentId
+                ? { ...c, content: '', revisions: undefined, reactions: [], deletedAt }
+                : c
+            )
+          )
+        );
+
+        return true;
+      } catch (error) {
+        console.error('Failed to delete comment:', error);
         return false;
       }
     },
@@ -155,6 +577,27 @@ function createPhotosStore() {
       }));
     },
 
+    /**
+     * Open a photo that may not be in the loaded feed, e.g. from a notification
+     */
+    async openPhotoById(id: string) {
+      try {
+        const response = await fetch(`/api/photos/${id}`);
+        if (!response.ok) throw new Error('Failed to load photo');
+
+        const photo: Photo = await response.json();
+        update((state: PhotosState) => ({
+          ...state,
+          selectedPhoto: photo,
+          isModalOpen: true
+        }));
+        return true;
+      } catch (error) {
+        console.error('Failed to open photo:', error);
+        return false;
+      }
+    },
+
     closeModal() {
       update((state: PhotosState) => ({
         ...state,
@@ -0,0 +1,56 @@
+import type { ShareLink, ShareTargetType } from '$lib/types';
+
+/**
+ * Manage the share links for one of the signed-in user's photos or albums.
+ * Failures come back as an error message.
+ */
+async function shareRequest<T>(
+  path: string,
+  method: string,
+  body?: unknown
+): Promise<{ data?: T; error?: string }> {
+  try {
+    const response = await fetch(`/api/share-links${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { error: data.error || 'Request failed' };
+    }
+
+    return { data };
+  } catch (error) {
+    console.error(`Failed to ${method} share link:`, error);
+    return { error: 'Network error, please try again' };
+  }
+}
+
+export async function loadShareLinks(targetType: ShareTargetType, targetId: string) {
+  const params = new URLSearchParams({ targetType, targetId });
+  const result = await shareRequest<{ links: ShareLink[] }>(`?${params}`, 'GET');
+  return { links: result.data?.links ?? [], error: result.error };
+}
+
+export async function createShareLink(
+  targetType: ShareTargetType,
+  targetId: string,
+  expiresInDays: number | null
+) {
+  const result = await shareRequest<ShareLink>('', 'POST', { targetType, targetId, expiresInDays });
+  return { link: result.data, error: result.error };
+}
+
+export async function revokeShareLink(token: string): Promise<string | null> {
+  const result = await shareRequest(`/${encodeURIComponent(token)}`, 'DELETE');
+  return result.error ?? null;
+}
+
+/**
+ * The address to hand out for a share link
+ */
+export function getShareUrl(link: ShareLink): string {
+  return `${window.location.origin}/s/${link.token}`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Restore photos and comments from the signed-in user's trash.
+ * Each returns an error message, or null once the item is back.
+ */
+async function restore(path: string): Promise<string | null> {
+  try {
+    const response = await fetch(`/api/${path}/restore`, { method: 'POST' });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return data.error || 'Failed to restore';
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Failed to restore:', error);
+    return 'Network error, please try again';
+  }
+}
+
+export function restorePhoto(id: string): Promise<string | null> {
+  return restore(`photos/${id}`);
+}
+
+export function restoreComment(id: string): Promise<string | null> {
+  return restore(`comments/${id}`);
+}
@@ -1,21 +1,42 @@
 import { writable } from 'svelte/store';
 import type { User } from '$lib/types';
 
-// Mock current user - in a real app, this would come from authentication
-const currentUser: User = {
-  id: '1',
-  username: 'alice',
-  avatar: '👩'
-};
+// Signed-in user, or null for anonymous visitors. Seeded from the layout data.
+export const user = writable<User | null>(null);
 
-export const user = writable<User>(currentUser);
+async function authRequest(path: string, body?: unknown): Promise<{ user?: User; error?: string }> {
+  try {
+    const response = await fetch(`/api/auth/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
 
-// Helper function to switch users (for demo purposes)
-export function switchUser(newUser: User) {
-  user.set(newUser);
-  // In a real app, you'd also update cookies/session here
-  if (typeof document !== 'undefined') {
-    document.cookie = `userId=${newUser.id}; path=/`;
-    document.cookie = `username=${newUser.username}; path=/`;
+    if (!response.ok) {
+      return { error: data.error || 'Request failed' };
+    }
+
+    return { user: data };
+  } catch (error) {
+    console.error(`Failed to ${path}:`, error);
+    return { error: 'Network error, please try again' };
   }
 }
+
+export async function login(username: string, password: string): Promise<string | null> {
+  const result = await authRequest('login', { username, password });
+  if (result.user) user.set(result.user);
+  return result.error ?? null;
+}
+
+export async function register(username: string, password: string): Promise<string | null> {
+  const result = await authRequest('register', { username, password });
+  if (result.user) user.set(result.user);
+  return result.error ?? null;
+}
+
+export async function logout(): Promise<void> {
+  await authRequest('logout');
+  user.set(null);
+}
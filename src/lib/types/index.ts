@@ -1,31 +1,357 @@
+/**
+ * Moderators act on reported content and ban members; admins also assign roles
+ */
+export type UserRole = 'member' | 'moderator' | 'admin';
+
 export interface User {
 	id: string;
 	username: string;
 	avatar?: string;
+	bio?: string;
+	createdAt?: string;
+	role: UserRole;
+	// Banned users can't sign in
+	bannedAt?: string;
+}
+
+/**
+ * Public profile with activity counts, as returned by GET /api/users/[id]
+ */
+export interface UserProfile extends User {
+	photoCount: number;
+	commentCount: number;
+	followerCount: number;
+	followingCount: number;
+	// Whether the signed-in viewer follows them; absent on their own profile
+	isFollowing?: boolean;
+}
+
+// Request payloads are defined by their validation schemas
+export type { AlbumUpdate, PhotoUpdate, ProfileUpdate } from '$lib/validation';
+
+
+export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad';
+
+/**
+ * Tally for one reaction type; `reacted` is whether the requesting user chose it
+ */
+export interface ReactionCount {
+	type: ReactionType;
+	count: number;
+	reacted: boolean;
+}
+
+/**
+ * An earlier version of an edited comment
+ */
+export interface CommentRevision {
+	content: string;
+	// When this version was written
+	createdAt: string;
+}
+
+/**
+ * A user mentioned as @username in a comment
+ */
+export interface CommentMention {
+	userId: string;
+	username: string;
 }
 
 export interface Comment {
 	id: string;
 	photoId: string;
+	// The comment this one replies to; top-level comments have none
+	parentId?: string;
 	userId: string;
 	username: string;
+	// As written, in the comment markdown subset
 	content: string;
+	// The content rendered and sanitized on the server; absent on older comments
+	html?: string;
+	mentions?: CommentMention[];
 	createdAt: string;
+	editedAt?: string;
+	// Prior versions, oldest first
+	revisions?: CommentRevision[];
+	// Deleted comments stay as placeholders so their replies keep their place.
+	// Their content, history and reactions are not sent to clients, except to
+	// the author through the trash.
+	deletedAt?: string;
+	deletedBy?: string;
+	// Hidden by a moderator; shown as a placeholder like a deleted comment
+	hiddenAt?: string;
+	hiddenBy?: string;
+	reactions?: ReactionCount[];
+}
+
+export type PhotoVariantName = 'thumbnail' | 'medium' | 'full';
+
+/**
+ * A resized copy of a photo generated at upload time
+ */
+export interface PhotoVariant {
+	name: PhotoVariantName;
+	format: 'jpeg' | 'png' | 'webp';
+	width: number;
+	height: number;
+	url: string;
+}
+
+/**
+ * Camera details read from a photo's EXIF at upload time
+ */
+export interface PhotoMetadata {
+	cameraMake?: string;
+	cameraModel?: string;
+	lens?: string;
+	exposureTime?: number; // seconds
+	fNumber?: number;
+	iso?: number;
+	focalLength?: number; // mm
+	takenAt?: string; // camera wall-clock time, no timezone
 }
 
+export interface PhotoLocation {
+	latitude: number;
+	longitude: number;
+}
+
+/**
+ * Who can see a photo besides its owner. Unlisted photos are open to anyone with
+ * the link but left out of feeds and search; private ones only through share links.
+ */
+export type PhotoVisibility = 'public' | 'followers' | 'private' | 'unlisted';
+
 export interface Photo {
 	id: string;
 	userId: string;
 	username: string;
 	imageUrl: string;
+	width?: number;
+	height?: number;
+	variants?: PhotoVariant[];
+	metadata?: PhotoMetadata;
+	location?: PhotoLocation;
+	tags?: string[];
+	reactions?: ReactionCount[];
 	title: string;
 	description?: string;
+	visibility: PhotoVisibility;
 	createdAt: string;
+	// Set while the photo is in the trash; only its owner can still see it
+	deletedAt?: string;
+	deletedBy?: string;
+	// Hidden by a moderator; only moderators can still see it
+	hiddenAt?: string;
+	hiddenBy?: string;
 	comments: Comment[];
 }
 
+export type PhotoSort = 'newest' | 'oldest' | 'most-commented';
+
+/**
+ * Which photos the home page lists: everyone's, or only from the people you follow
+ */
+export type PhotoFeed = 'everyone' | 'following';
+
+/**
+ * Feed query for GET /api/photos
+ */
+
+export interface PhotoQuery {
+	cursor?: string;
+	limit?: number;
+	sort?: PhotoSort;
+	userId?: string;
+	tag?: string;
+	from?: string; // ISO date or date-time, inclusive
+	to?: string; // ISO date (whole day included) or date-time, exclusive
+}
+
+export interface PhotoPage {
+	photos: Photo[];
+	nextCursor: string | null;
+	hasMore: boolean;
+}
+
+/**
+ * Ranked search results for GET /api/search
+ */
+export interface SearchPage extends PhotoPage {
+	total: number;
+}
+
+/**
+ * A user's collection of photos, in the order they chose
+ */
+export interface Album {
+	id: string;
+	userId: string;
+	username: string;
+	title: string;
+	description?: string;
+	coverPhotoId?: string;
+	photoIds: string[];
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Album as listed: the cover is the chosen photo, or the first one if none was chosen
+ */
+export interface AlbumSummary extends Album {
+	cover: Photo | null;
+}
+
+export interface AlbumDetail extends AlbumSummary {
+	photos: Photo[];
+}
+
+
 export interface PhotoUpload {
 	title: string;
 	description?: string;
 	imageFile: File;
 }
+
+/**
+ * Why a user was notified: a comment on their photo, a reply in a thread they
+ * commented in, or an @mention
+ */
+export type NotificationType = 'comment' | 'reply' | 'mention';
+
+export interface Notification {
+	id: string;
+	// The recipient
+	userId: string;
+	type: NotificationType;
+	// Who wrote the comment
+	actorId: string;
+	actorUsername: string;
+	photoId: string;
+	photoTitle: string;
+	commentId: string;
+	// Start of the comment's text
+	excerpt: string;
+	createdAt: string;
+	readAt?: string;
+}
+
+/**
+ * Response from GET /api/notifications
+ */
+export interface NotificationList {
+	notifications: Notification[];
+	unreadCount: number;
+}
+
+/**
+ * A change pushed to browsers over GET /api/events. Photos and comments are shaped
+ * for an anonymous viewer, so `reacted` flags are always false.
+ */
+export type LiveEvent =
+	| { type: 'photo:created' | 'photo:updated'; photo: Photo }
+	| { type: 'photo:deleted'; photoId: string }
+	// Made private, followers-only or unlisted; some viewers may still see it
+	| { type: 'photo:unlisted'; photoId: string }
+	| { type: 'comment:added' | 'comment:updated' | 'comment:deleted'; photoId: string; comment: Comment };
+
+/**
+ * A deleted comment as its author sees it in the trash
+ */
+export interface TrashedComment {
+	comment: Comment;
+	photoTitle: string;
+}
+
+/**
+ * Response from GET /api/trash: the user's deleted photos and comments that can
+ * still be restored, most recently deleted first
+ */
+export interface Trash {
+	photos: Photo[];
+	comments: TrashedComment[];
+}
+
+export type ReportTargetType = 'photo' | 'comment';
+
+export type ReportReason = 'spam' | 'harassment' | 'nudity' | 'violence' | 'copyright' | 'other';
+
+/**
+ * Reports stay open until a moderator acts on the content or dismisses them
+ */
+export type ReportStatus = 'open' | 'actioned' | 'dismissed';
+
+export interface Report {
+	id: string;
+	targetType: ReportTargetType;
+	targetId: string;
+	// The photo reported, or the one the reported comment is on
+	photoId: string;
+	// Who posted the reported content
+	targetUserId: string;
+	targetUsername: string;
+	// The photo title or start of the comment when it was reported
+	excerpt: string;
+	reason: ReportReason;
+	details?: string;
+	reporterId: string;
+	reporterUsername: string;
+	createdAt: string;
+	status: ReportStatus;
+	resolvedAt?: string;
+	resolvedBy?: string;
+}
+
+/**
+ * What has become of reported content since
+ */
+export type ContentStatus = 'visible' | 'hidden' | 'deleted' | 'gone';
+
+/**
+ * A report in the moderation queue, with the current state of its content
+ */
+export interface QueuedReport extends Report {
+	targetStatus: ContentStatus;
+}
+
+export type ContentModerationAction = 'hide' | 'unhide' | 'delete' | 'restore';
+
+export type UserModerationAction = 'ban' | 'unban' | 'set-role';
+
+export type ModerationActionType = ContentModerationAction | UserModerationAction | 'dismiss';
+
+/**
+ * One entry in the audit trail of moderation actions
+ */
+export interface ModerationLogEntry {
+	id: string;
+	action: ModerationActionType;
+	targetType: ReportTargetType | 'user' | 'report';
+	targetId: string;
+	moderatorId: string;
+	moderatorUsername: string;
+	// The role given, for set-role
+	role?: UserRole;
+	reason?: string;
+	// Reports closed by this action
+	reportIds: string[];
+	createdAt: string;
+}
+
+export type ShareTargetType = 'photo' | 'album';
+
+/**
+ * An unguessable link, /s/[token], that lets anyone holding it view a photo or an
+ * album whatever its visibility, until it is revoked or expires
+ */
+export interface ShareLink {
+	token: string;
+	targetType: ShareTargetType;
+	targetId: string;
+	// The owner of the photo or album, who created the link
+	userId: string;
+	createdAt: string;
+	expiresAt?: string;
+}
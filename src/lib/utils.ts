@@ -2,6 +2,69 @@
  * Utility functions for the Photo Sharing Application
  */
 
+import type {
+  Comment,
+  Photo,
+  PhotoFeed,
+  PhotoMetadata,
+  PhotoSort,
+  PhotoVariant,
+  PhotoVisibility,
+  ReactionType,
+  ReportReason,
+  ReportStatus,
+  UserRole
+} from '$lib/types';
+
+// Avatars a user can pick for their profile
+export const AVATARS = ['👩', '👨', '🧑', '👧', '👦', '🧔', '👱', '🧕', '🦊', '🐼'];
+
+export const MAX_BIO_LENGTH = 280;
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const PHOTO_SORTS: PhotoSort[] = ['newest', 'oldest', 'most-commented'];
+export const PHOTO_FEEDS: PhotoFeed[] = ['everyone', 'following'];
+
+// Display order of reactions in the UI
+export const REACTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'laugh', emoji: '😂', label: 'Haha' },
+  { type: 'wow', emoji: '😮', label: 'Wow' },
+  { type: 'sad', emoji: '😢', label: 'Sad' }
+];
+
+export const REACTION_TYPES: ReactionType[] = REACTIONS.map((r) => r.type);
+
+// Reasons offered when reporting a photo or comment, in display order
+export const REPORT_REASONS: { reason: ReportReason; label: string }[] = [
+  { reason: 'spam', label: 'Spam' },
+  { reason: 'harassment', label: 'Harassment or bullying' },
+  { reason: 'nudity', label: 'Nudity or sexual content' },
+  { reason: 'violence', label: 'Violence or threats' },
+  { reason: 'copyright', label: 'Copyright infringement' },
+  { reason: 'other', label: 'Something else' }
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const REPORT_STATUSES: ReportStatus[] = ['open', 'actioned', 'dismissed'];
+
+export const USER_ROLES: UserRole[] = ['member', 'moderator', 'admin'];
+
+// Visibility choices for a photo, in display order
+export const PHOTO_VISIBILITIES: { visibility: PhotoVisibility; label: string; description: string }[] = [
+  { visibility: 'public', label: 'Public', description: 'Anyone can see it' },
+  { visibility: 'followers', label: 'Followers', description: 'Only people who follow you' },
+  { visibility: 'unlisted', label: 'Unlisted', description: 'Anyone with the link, but not in feeds or search' },
+  { visibility: 'private', label: 'Private', description: 'Only you, and anyone you send a share link' }
+];
+
+// Expiry choices for a new share link, in days; null never expires
+export const SHARE_LINK_EXPIRY_DAYS: (number | null)[] = [null, 1, 7, 30];
+
 /**
  * Format a date string to a human-readable format
  */
@@ -77,12 +140,17 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
+/**
+ * Largest photo upload accepted, enforced on the server while streaming
+ */
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024; // 50MB
+
 /**
  * Validate image file type and size
  */
 export function validateImageFile(file: File): { valid: boolean; error?: string } {
   const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-  const maxSize = 10 * 1024 * 1024; // 10MB
+  const maxSize = MAX_UPLOAD_BYTES;
 
   if (!validTypes.includes(file.type)) {
     return {
@@ -94,7 +162,7 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
   if (file.size > maxSize) {
     return {
       valid: false,
-      error: 'File size must be less than 10MB'
+      error: `File size must be less than ${formatFileSize(maxSize)}`
     };
   }
 
@@ -189,3 +257,150 @@ export function pluralize(count: number, singular: string, plural?: string): str
   if (count === 1) return singular;
   return plural || `${singular}s`;
 }
+
+/**
+ * Build a srcset from a photo's resized variants of one format
+ */
+export function buildSrcset(photo: Photo, format: PhotoVariant['format']): string {
+  return (photo.variants ?? [])
+    .filter((variant) => variant.format === format)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * Format of the non-WebP fallback variants for a photo, if it has any
+ */
+export function getFallbackFormat(photo: Photo): PhotoVariant['format'] | null {
+  return photo.variants?.find((variant) => variant.format !== 'webp')?.format ?? null;
+}
+
+/**
+ * Format an exposure time in seconds the way cameras show it (1/125s, 2s)
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) return `${Math.round(seconds * 10) / 10}s`;
+  return `1/${Math.round(1 / seconds)}s`;
+}
+
+/**
+ * Summarize a photo's camera settings, e.g. "1/125s · f/2.8 · ISO 100 · 35mm"
+ */
+export function formatExposureSettings(metadata: PhotoMetadata): string {
+  const parts: string[] = [];
+  if (metadata.exposureTime) parts.push(formatExposureTime(metadata.exposureTime));
+  if (metadata.fNumber) parts.push(`f/${metadata.fNumber}`);
+  if (metadata.iso) parts.push(`ISO ${metadata.iso}`);
+  if (metadata.focalLength) parts.push(`${Math.round(metadata.focalLength)}mm`);
+  return parts.join(' · ');
+}
+
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * Normalize a tag: lowercase, without a leading # and limited to letters, digits, _ and -.
+ * Returns null if nothing usable is left.
+ */
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return normalized || null;
+}
+
+/**
+ * Parse user-entered tags separated by commas or spaces ("#sunset, beach")
+ */
+export function parseTagList(input: string): string[] {
+  const tags = input.split(/[\s,]+/).map(normalizeTag).filter((tag): tag is string => !!tag);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Find the #hashtags in a piece of text
+ */
+export function extractHashtags(text: string | undefined): string[] {
+  const tags = [...(text ?? '').matchAll(/(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_-]+)/gu)]
+    .map((match) => normalizeTag(match[1]))
+    .filter((tag): tag is string => !!tag);
+  return [...new Set(tags)];
+}
+
+/**
+ * All tags of a photo: those given explicitly plus hashtags in its title, description
+ * and comments
+ */
+export function getPhotoTags(photo: Pick<Photo, 'tags' | 'title' | 'description' | 'comments'>): string[] {
+  return [
+    ...new Set([
+      ...(photo.tags ?? []),
+      ...extractHashtags(photo.title),
+      ...extractHashtags(photo.description),
+      ...photo.comments
+        .filter((comment) => !isCommentRemoved(comment))
+        .flatMap((comment) => extractHashtags(comment.content))
+    ])
+  ];
+}
+
+/**
+ * Whether a comment was deleted or hidden by a moderator, leaving a placeholder
+ */
+export function isCommentRemoved(comment: Pick<Comment, 'deletedAt' | 'hiddenAt'>): boolean {
+  return !!comment.deletedAt || !!comment.hiddenAt;
+}
+
+/**
+ * Number of comments on a photo, not counting deleted or hidden ones
+ */
+export function countComments(photo: Pick<Photo, 'comments'>): number {
+  return photo.comments.filter((comment) => !isCommentRemoved(comment)).length;
+}
+
+/**
+ * Arrange a photo's comments into threads, oldest first. Deleted comments are dropped
+ * unless they still have replies; replies to missing comments become top-level.
+ */
+export function buildCommentThreads(comments: Comment[]): {
+  roots: Comment[];
+  replies: Map<string, Comment[]>;
+} {
+  const ids = new Set(comments.map((c) => c.id));
+  const sorted = [...comments].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const roots: Comment[] = [];
+  const replies = new Map<string, Comment[]>();
+  for (const comment of sorted) {
+    if (comment.parentId && ids.has(comment.parentId)) {
+      replies.set(comment.parentId, [...(replies.get(comment.parentId) ?? []), comment]);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const isShown = (comment: Comment): boolean =>
+    !isCommentRemoved(comment) || (replies.get(comment.id) ?? []).some(isShown);
+
+  for (const [parentId, children] of replies) {
+    replies.set(parentId, children.filter(isShown));
+  }
+
+  return { roots: roots.filter(isShown), replies };
+}
+
+// Deleted photos and comments can be restored for this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Whole days left to restore something deleted at `deletedAt`
+ */
+export function getDaysLeftInTrash(deletedAt: string): number {
+  const elapsedDays = (Date.now() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsedDays));
+}
@@ -0,0 +1,503 @@
+/**
+ * Request Validation
+ * Schemas for everything the API accepts: JSON bodies, upload form fields and query
+ * parameters. A schema checks a value, normalizes it (trimming text, reading numbers
+ * out of query strings) and reports every problem with the field it was found in.
+ * Request types are inferred from the schemas, so the routes and the stores calling
+ * them share one definition.
+ */
+
+import type { ContentModerationAction, ShareTargetType } from '$lib/types';
+import {
+  AVATARS,
+  MAX_BIO_LENGTH,
+  MAX_COMMENT_LENGTH,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_TITLE_LENGTH,
+  PHOTO_FEEDS,
+  PHOTO_SORTS,
+  PHOTO_VISIBILITIES,
+  REACTION_TYPES,
+  REPORT_REASONS,
+  REPORT_STATUSES,
+  SHARE_LINK_EXPIRY_DAYS,
+  USER_ROLES,
+  parseTagList
+} from '$lib/utils';
+
+export interface FieldError {
+  // Where the problem is: a property name, or a dotted path such as "photoIds.2"
+  field: string;
+  message: string;
+}
+
+/**
+ * Body of a 400 response for a request that failed validation. `error` repeats the
+ * first message for clients that show just one.
+ */
+export interface ValidationErrorBody {
+  error: string;
+  errors: FieldError[];
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  check(value: unknown, field: string): ValidationResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Properties whose schema accepts undefined become optional
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function valid<T>(value: T): ValidationResult<T> {
+  return { ok: true, value };
+}
+
+function invalid(field: string, message: string): ValidationResult<never> {
+  return { ok: false, errors: [{ field, message }] };
+}
+
+/**
+ * Check a whole request body or query against a schema
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  return schema.check(value, '');
+}
+
+interface TextOptions {
+  // Shortest allowed length after trimming; the default of 1 rejects blank text
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  // Used instead of the generic messages, e.g. to explain `pattern`
+  message?: string;
+  // Keep surrounding whitespace, as for passwords
+  raw?: boolean;
+}
+
+/**
+ * Text, trimmed unless `raw` is set
+ */
+export function text(label: string, options: TextOptions = {}): Schema<string> {
+  const { min = 1, max, pattern, message, raw = false } = options;
+
+  return {
+    check(value, field) {
+      if (typeof value !== 'string') {
+        return invalid(field, message ?? (value == null ? `${label} is required` : `${label} must be text`));
+      }
+
+      const result = raw ? value : value.trim();
+      if (result.length < min) {
+        return invalid(
+          field,
+          message ?? (min === 1 ? `${label} is required` : `${label} must be at least ${min} characters`)
+        );
+      }
+      if (max !== undefined && result.length > max) {
+        return invalid(field, message ?? `${label} must be at most ${max} characters`);
+      }
+      if (pattern && !pattern.test(result)) {
+        return invalid(field, message ?? `${label} is not valid`);
+      }
+      return valid(result);
+    }
+  };
+}
+
+/**
+ * Optional free text such as a reason or a note, where blank counts as not given
+ */
+export function note(label: string, max: number): Schema<string | undefined> {
+  const schema = optional(text(label, { min: 0, max }));
+
+  return {
+    check(value, field) {
+      const result = schema.check(value, field);
+      return result.ok && !result.value ? valid(undefined) : result;
+    }
+  };
+}
+
+/**
+ * The ID of a photo, comment, user and so on. Numbers are accepted for older clients.
+ */
+export function id(label: string): Schema<string> {
+  return {
+    check(value, field) {
+      if (typeof value === 'number' && Number.isInteger(value)) return valid(String(value));
+      if (typeof value === 'string' && value.trim() && value.length <= 100) return valid(value.trim());
+      return invalid(field, `${label} is required`);
+    }
+  };
+}
+
+/**
+ * A whole number within bounds, given as a number or, in a query string, as digits
+ */
+export function integer(label: string, { min, max }: { min: number; max: number }): Schema<number> {
+  return {
+    check(value, field) {
+      const number = typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+        return invalid(field, `${label} must be between ${min} and ${max}`);
+      }
+      return valid(number);
+    }
+  };
+}
+
+/**
+ * One of a fixed set of values
+ */
+export function oneOf<T extends string | number>(
+  label: string,
+  values: readonly T[],
+  message?: string
+): Schema<T> {
+  return {
+    check(value, field) {
+      if (!values.includes(value as T)) {
+        return invalid(field, message ?? `${label} must be one of: ${values.join(', ')}`);
+      }
+      return valid(value as T);
+    }
+  };
+}
+
+/**
+ * true or false, also spelled out as in form fields and query strings
+ */
+export function flag(label: string): Schema<boolean> {
+  return {
+    check(value, field) {
+      if (value === true || value === 'true') return valid(true);
+      if (value === false || value === 'false') return valid(false);
+      return invalid(field, `${label} must be true or false`);
+    }
+  };
+}
+
+/**
+ * A date or date-time string
+ */
+export function date(label: string): Schema<string> {
+  return {
+    check(value, field) {
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        return invalid(field, `${label} must be a date`);
+      }
+      return valid(value);
+    }
+  };
+}
+
+/**
+ * Tags, as a list or as the raw text of a tags field ("#sunset, beach"), normalized
+ * with parseTagList
+ */
+export function tagList(label: string): Schema<string[]> {
+  return {
+    check(value, field) {
+      if (typeof value === 'string') return valid(parseTagList(value));
+      if (Array.isArray(value) && value.every((tag) => typeof tag === 'string')) {
+        return valid(parseTagList(value.join(' ')));
+      }
+      return invalid(field, `${label} must be a list of tags`);
+    }
+  };
+}
+
+export function list<T>(label: string, item: Schema<T>, { max }: { max: number }): Schema<T[]> {
+  return {
+    check(value, field) {
+      if (!Array.isArray(value)) return invalid(field, `${label} must be a list`);
+      if (value.length > max) return invalid(field, `${label} can have at most ${max} items`);
+
+      const items: T[] = [];
+      const errors: FieldError[] = [];
+      value.forEach((element, index) => {
+        const result = item.check(element, field ? `${field}.${index}` : String(index));
+        if (result.ok) {
+          items.push(result.value);
+        } else {
+          errors.push(...result.errors);
+        }
+      });
+
+      return errors.length > 0 ? { ok: false, errors } : valid(items);
+    }
+  };
+}
+
+/**
+ * Allow a value to be left out (undefined or null)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, field) {
+      return value == null ? valid(undefined) : schema.check(value, field);
+    }
+  };
+}
+
+/**
+ * Allow a value to be left out, or set to null to clear it
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return {
+    check(value, field) {
+      if (value === undefined) return valid(undefined);
+      return value === null ? valid(null) : schema.check(value, field);
+    }
+  };
+}
+
+/**
+ * Use `fallback` when the value is left out
+ */
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    check(value, field) {
+      return value == null ? valid(fallback) : schema.check(value, field);
+    }
+  };
+}
+
+/**
+ * An object with the given properties, each checked by its own schema. Every invalid
+ * property is reported; properties not in `shape` are dropped.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    check(value, field) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return invalid(field || 'body', 'Expected an object');
+      }
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const errors: FieldError[] = [];
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check(input[key], field ? `${field}.${key}` : key);
+        if (!checked.ok) {
+          errors.push(...checked.errors);
+        } else if (checked.value !== undefined) {
+          result[key] = checked.value;
+        }
+      }
+
+      return errors.length > 0 ? { ok: false, errors } : valid(result as ObjectOf<S>);
+    }
+  };
+}
+
+// Shared pieces
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,20}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_SEARCH_LENGTH = 200;
+const MAX_REASON_LENGTH = 500;
+const MAX_CURSOR_LENGTH = 500;
+const MAX_TAG_FILTER_LENGTH = 100;
+const MAX_ALBUM_PHOTOS = 1000;
+const MAX_NOTIFICATION_IDS = 500;
+
+const CONTENT_MODERATION_ACTIONS: ContentModerationAction[] = ['hide', 'unhide', 'delete', 'restore'];
+const SHARE_TARGET_TYPES: ShareTargetType[] = ['photo', 'album'];
+
+const visibility = oneOf(
+  'Visibility',
+  PHOTO_VISIBILITIES.map((v) => v.visibility)
+);
+const moderationReason = note('Reason', MAX_REASON_LENGTH);
+const cursor = optional(text('Cursor', { max: MAX_CURSOR_LENGTH }));
+
+function pageLimit(fallback: number, max: number) {
+  return withDefault(integer('Limit', { min: 1, max }), fallback);
+}
+
+// Query parameters
+
+export const photoListQuery = object({
+  cursor,
+  limit: pageLimit(10, 50),
+  sort: withDefault(oneOf('Sort', PHOTO_SORTS), 'newest'),
+  feed: withDefault(oneOf('Feed', PHOTO_FEEDS), 'everyone'),
+  userId: optional(id('User ID')),
+  tag: optional(text('Tag', { max: MAX_TAG_FILTER_LENGTH })),
+  from: optional(date('From')),
+  to: optional(date('To'))
+});
+
+export const searchQuery = object({
+  q: text('Search query', { max: MAX_SEARCH_LENGTH }),
+  cursor,
+  limit: pageLimit(10, 50)
+});
+
+export const albumListQuery = object({
+  userId: optional(id('User ID'))
+});
+
+export const notificationsQuery = object({
+  limit: pageLimit(20, 50)
+});
+
+export const reportsQuery = object({
+  status: withDefault(oneOf('Status', REPORT_STATUSES), 'open')
+});
+
+export const moderationLogQuery = object({
+  limit: pageLimit(50, 200)
+});
+
+export const shareLinksQuery = object({
+  targetType: oneOf('Target type', SHARE_TARGET_TYPES),
+  targetId: id('Target ID')
+});
+
+export const reconcileQuery = object({
+  dryRun: withDefault(flag('Dry run'), true)
+});
+
+// Photos and comments
+
+// Form fields sent along with the image to POST /api/photos
+export const photoUpload = object({
+  title: text('Title', { max: MAX_TITLE_LENGTH }),
+  description: note('Description', MAX_DESCRIPTION_LENGTH),
+  tags: optional(tagList('Tags')),
+  keepLocation: withDefault(flag('Keep location'), false),
+  visibility: withDefault(visibility, 'public')
+});
+
+export const photoUpdate = object({
+  title: optional(text('Title', { max: MAX_TITLE_LENGTH })),
+  // An empty description clears it
+  description: optional(text('Description', { min: 0, max: MAX_DESCRIPTION_LENGTH })),
+  tags: optional(tagList('Tags')),
+  visibility: optional(visibility)
+});
+
+export const commentCreate = object({
+  photoId: id('Photo ID'),
+  content: text('Content', { max: MAX_COMMENT_LENGTH }),
+  parentId: optional(id('Parent comment ID'))
+});
+
+export const commentUpdate = object({
+  content: text('Content', { max: MAX_COMMENT_LENGTH })
+});
+
+export const commentDelete = object({
+  commentId: id('Comment ID')
+});
+
+export const reaction = object({
+  type: oneOf('Reaction', REACTION_TYPES)
+});
+
+// Albums
+
+export const albumCreate = object({
+  title: text('Title', { max: MAX_TITLE_LENGTH }),
+  description: note('Description', MAX_DESCRIPTION_LENGTH)
+});
+
+export const albumUpdate = object({
+  title: optional(text('Title', { max: MAX_TITLE_LENGTH })),
+  description: optional(text('Description', { min: 0, max: MAX_DESCRIPTION_LENGTH })),
+  // null removes the chosen cover
+  coverPhotoId: nullable(id('Cover photo ID')),
+  photoIds: optional(list('Photo IDs', id('Photo ID'), { max: MAX_ALBUM_PHOTOS }))
+});
+
+export const albumPhoto = object({
+  photoId: id('Photo ID')
+});
+
+// Users
+
+export const registration = object({
+  username: text('Username', {
+    pattern: USERNAME_PATTERN,
+    message: 'Username must be 3-20 characters (letters, numbers, underscore)'
+  }),
+  password: text('Password', { min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH, raw: true })
+});
+
+export const login = object({
+  username: text('Username', { max: 100 }),
+  password: text('Password', { max: MAX_PASSWORD_LENGTH, raw: true })
+});
+
+export const profileUpdate = object({
+  bio: optional(text('Bio', { min: 0, max: MAX_BIO_LENGTH })),
+  avatar: optional(oneOf('Avatar', AVATARS, 'Please choose one of the available avatars'))
+});
+
+// Moderation
+
+export const reportCreate = object({
+  targetType: oneOf('Target type', ['photo', 'comment'] as const),
+  targetId: id('Target ID'),
+  reason: oneOf(
+    'Reason',
+    REPORT_REASONS.map((r) => r.reason)
+  ),
+  details: note('Details', MAX_REPORT_DETAILS_LENGTH)
+});
+
+export const contentModeration = object({
+  action: oneOf('Action', CONTENT_MODERATION_ACTIONS),
+  reason: moderationReason
+});
+
+export const userModeration = object({
+  action: oneOf('Action', ['ban', 'unban'] as const),
+  reason: moderationReason
+});
+
+export const reportDismissal = object({
+  reason: moderationReason
+});
+
+export const roleAssignment = object({
+  role: oneOf('Role', USER_ROLES),
+  reason: moderationReason
+});
+
+// Sharing and notifications
+
+export const shareLinkCreate = object({
+  targetType: oneOf('Target type', SHARE_TARGET_TYPES),
+  targetId: id('Target ID'),
+  // Left out or null for a link that never expires
+  expiresInDays: optional(
+    oneOf(
+      'Expiry in days',
+      SHARE_LINK_EXPIRY_DAYS.filter((days): days is number => days !== null)
+    )
+  )
+});
+
+export const notificationsRead = object({
+  // Left out to mark every notification read
+  ids: optional(list('Notification IDs', id('Notification ID'), { max: MAX_NOTIFICATION_IDS }))
+});
+
+export type PhotoUpdate = Infer<typeof photoUpdate>;
+export type AlbumUpdate = Infer<typeof albumUpdate>;
+export type ProfileUpdate = Infer<typeof profileUpdate>;
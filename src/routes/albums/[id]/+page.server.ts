@@ -0,0 +1,13 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getAlbumById } from '$lib/server/db';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+  const album = await getAlbumById(params.id, locals.user?.id);
+
+  if (!album) {
+    error(404, 'Album not found');
+  }
+
+  return { album };
+};
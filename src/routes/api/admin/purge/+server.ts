@@ -0,0 +1,24 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isAdmin } from '$lib/server/auth';
+import { purgeTrash } from '$lib/server/retention';
+
+/**
+ * Permanently remove expired trash now instead of waiting for the hourly run
+ */
+export const POST: RequestHandler = async ({ locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isAdmin(locals.user)) {
+    return json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  try {
+    const report = await purgeTrash();
+    return json({ report });
+  } catch (error) {
+    console.error('Trash purge failed:', error);
+    return json({ error: 'Trash purge failed' }, { status: 500 });
+  }
+};
@@ -0,0 +1,49 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isAdmin } from '$lib/server/auth';
+import { ReconcileRefusedError, getLastReconcileReport, reconcileStorage } from '$lib/server/reconcile';
+import { invalidRequest, readQuery } from '$lib/server/validation';
+import { reconcileQuery } from '$lib/validation';
+
+/**
+ * The most recent reconciliation report
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isAdmin(locals.user)) {
+    return json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  return json({ report: getLastReconcileReport() });
+};
+
+/**
+ * Run reconciliation now. Defaults to a dry run; pass `?dryRun=false` to delete.
+ */
+export const POST: RequestHandler = async ({ url, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isAdmin(locals.user)) {
+    return json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  const input = readQuery(url.searchParams, reconcileQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const report = await reconcileStorage({ dryRun: input.value.dryRun });
+    return json({ report });
+  } catch (error) {
+    if (error instanceof ReconcileRefusedError) {
+      return json({ error: error.message }, { status: 409 });
+    }
+    console.error('Storage reconciliation failed:', error);
+    return json({ error: 'Storage reconciliation failed' }, { status: 500 });
+  }
+};
@@ -0,0 +1,40 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isAdmin } from '$lib/server/auth';
+import { ModerationError, assignRole } from '$lib/server/moderation';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { roleAssignment } from '$lib/validation';
+
+/**
+ * Give a user a role: `{ role, reason? }`
+ */
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isAdmin(locals.user)) {
+    return json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  const input = await readJson(request, roleAssignment);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const { role, reason } = input.value;
+    const user = await assignRole(locals.user, params.id, role, reason);
+    return json(user);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to assign role:', error);
+    return json({ error: 'Failed to assign role' }, { status: 500 });
+  }
+};
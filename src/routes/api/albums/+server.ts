@@ -0,0 +1,40 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAlbums, createAlbum } from '$lib/server/db';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson, readQuery } from '$lib/server/validation';
+import { albumCreate, albumListQuery } from '$lib/validation';
+
+export const GET: RequestHandler = async ({ url, locals }) => {
+  const input = readQuery(url.searchParams, albumListQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  return json(await getAlbums(input.value.userId, locals.user?.id));
+};
+
+export const POST: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id: userId, username } = locals.user;
+  const input = await readJson(request, albumCreate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const album = await createAlbum(userId, username, input.value.title, input.value.description);
+    return json(album, { status: 201 });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to create album:', error);
+    return json({ error: 'Failed to create album' }, { status: 500 });
+  }
+};
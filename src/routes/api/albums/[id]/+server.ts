@@ -0,0 +1,75 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getAlbumById, updateAlbum, deleteAlbum } from '$lib/server/db';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { albumUpdate } from '$lib/validation';
+
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const album = await getAlbumById(params.id, locals.user?.id);
+
+  if (!album) {
+    return json({ error: 'Album not found' }, { status: 404 });
+  }
+
+  return json(album);
+};
+
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userId = locals.user.id;
+  const input = await readJson(request, albumUpdate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  const existing = await getAlbumById(params.id);
+  if (!existing || existing.userId !== userId) {
+    return json({ error: 'Album not found or unauthorized' }, { status: 404 });
+  }
+
+  try {
+    const album = await updateAlbum(params.id, userId, input.value);
+
+    if (!album) {
+      return json(
+        { error: 'The cover must be in the album, and a new order must list exactly its photos' },
+        { status: 400 }
+      );
+    }
+
+    return json(album);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to update album:', error);
+    return json({ error: 'Failed to update album' }, { status: 500 });
+  }
+};
+
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const success = await deleteAlbum(params.id, locals.user.id);
+
+    if (!success) {
+      return json({ error: 'Album not found or unauthorized' }, { status: 404 });
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to delete album:', error);
+    return json({ error: 'Failed to delete album' }, { status: 500 });
+  }
+};
@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { addPhotoToAlbum, removePhotoFromAlbum } from '$lib/server/db';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { albumPhoto } from '$lib/validation';
+
+function handleAlbumPhoto(action: typeof addPhotoToAlbum): RequestHandler {
+  return async ({ params, request, locals }) => {
+    if (!locals.user) {
+      return json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const input = await readJson(request, albumPhoto);
+
+    if (!input.ok) {
+      return invalidRequest(input.errors);
+    }
+
+    try {
+      const album = await action(params.id, locals.user.id, input.value.photoId);
+
+      if (!album) {
+        return json({ error: 'Album or photo not found, or unauthorized' }, { status: 404 });
+      }
+
+      return json(album);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+      }
+      console.error('Failed to update album photos:', error);
+      return json({ error: 'Failed to update album' }, { status: 500 });
+    }
+  };
+}
+
+export const POST = handleAlbumPhoto(addPhotoToAlbum);
+export const DELETE = handleAlbumPhoto(removePhotoFromAlbum);
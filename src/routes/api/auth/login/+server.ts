@@ -0,0 +1,33 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { authenticateUser, getSessionVersion } from '$lib/server/db';
+import { setSessionCookie } from '$lib/server/auth';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { login } from '$lib/validation';
+
+export const POST: RequestHandler = async ({ request, cookies }) => {
+  const input = await readJson(request, login);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  const { username, password } = input.value;
+
+  try {
+    const user = await authenticateUser(username, password);
+
+    if (!user) {
+      return json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+    if (user.bannedAt) {
+      return json({ error: 'This account has been banned' }, { status: 403 });
+    }
+
+    setSessionCookie(cookies, user.id, (await getSessionVersion(user.id)) ?? 0);
+    return json(user);
+  } catch (error) {
+    console.error('Failed to log in:', error);
+    return json({ error: 'Failed to log in' }, { status: 500 });
+  }
+};
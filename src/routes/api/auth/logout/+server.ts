@@ -0,0 +1,14 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { clearSessionCookie } from '$lib/server/auth';
+import { endSessions } from '$lib/server/db';
+
+export const POST: RequestHandler = async ({ cookies, locals }) => {
+  // A copy of the cookie must not keep working after signing out
+  if (locals.user) {
+    await endSessions(locals.user.id);
+  }
+
+  clearSessionCookie(cookies);
+  return json({ success: true });
+};
@@ -0,0 +1,30 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createUser, getSessionVersion } from '$lib/server/db';
+import { setSessionCookie } from '$lib/server/auth';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { registration } from '$lib/validation';
+
+export const POST: RequestHandler = async ({ request, cookies }) => {
+  const input = await readJson(request, registration);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  const { username, password } = input.value;
+
+  try {
+    const user = await createUser(username, password);
+
+    if (!user) {
+      return json({ error: 'Username is already taken' }, { status: 409 });
+    }
+
+    setSessionCookie(cookies, user.id, (await getSessionVersion(user.id)) ?? 0);
+    return json(user, { status: 201 });
+  } catch (error) {
+    console.error('Failed to register user:', error);
+    return json({ error: 'Failed to register user' }, { status: 500 });
+  }
+};
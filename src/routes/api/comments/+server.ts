@@ -1,22 +1,29 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { addComment, deleteComment } from '$lib/server/db';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { commentCreate, commentDelete } from '$lib/validation';
 
-export const POST: RequestHandler = async ({ request, cookies }) => {
-  const userId = cookies.get('userId') || '1';
-  const username = cookies.get('username') || 'alice';
+export const POST: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { id: userId, username } = locals.user;
 
-  const { photoId, content } = await request.json();
+  const input = await readJson(request, commentCreate);
 
-  if (!photoId || !content) {
-    return json({ error: 'Photo ID and content are required' }, { status: 400 });
+  if (!input.ok) {
+    return invalidRequest(input.errors);
   }
 
+  const { photoId, content, parentId } = input.value;
+
   try {
-    const comment = await addComment(photoId, userId, username, content);
+    const comment = await addComment(photoId, userId, username, content, parentId);
 
     if (!comment) {
-      return json({ error: 'Photo not found' }, { status: 404 });
+      return json({ error: parentId ? 'Comment to reply to not found' : 'Photo not found' }, { status: 404 });
     }
 
     return json(comment, { status: 201 });
@@ -26,16 +33,20 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
   }
 };
 
-export const DELETE: RequestHandler = async ({ request, cookies }) => {
-  const userId = cookies.get('userId') || '1';
-  const { commentId } = await request.json();
+export const DELETE: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userId = locals.user.id;
+  const input = await readJson(request, commentDelete);
 
-  if (!commentId) {
-    return json({ error: 'Comment ID is required' }, { status: 400 });
+  if (!input.ok) {
+    return invalidRequest(input.errors);
   }
 
   try {
-    const success = await deleteComment(commentId, userId);
+    const success = await deleteComment(input.value.commentId, userId);
 
     if (!success) {
       return json({ error: 'Comment not found or unauthorized' }, { status: 404 });
@@ -0,0 +1,30 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { updateComment } from '$lib/server/db';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { commentUpdate } from '$lib/validation';
+
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const input = await readJson(request, commentUpdate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const comment = await updateComment(params.id, locals.user.id, input.value.content);
+
+    if (!comment) {
+      return json({ error: 'Comment not found or unauthorized' }, { status: 404 });
+    }
+
+    return json(comment);
+  } catch (error) {
+    console.error('Failed to update comment:', error);
+    return json({ error: 'Failed to update comment' }, { status: 500 });
+  }
+};
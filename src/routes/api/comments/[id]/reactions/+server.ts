@@ -0,0 +1,35 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { setCommentReaction } from '$lib/server/db';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { reaction } from '$lib/validation';
+
+function handleReaction(reacted: boolean): RequestHandler {
+  return async ({ params, request, locals }) => {
+    if (!locals.user) {
+      return json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const input = await readJson(request, reaction);
+
+    if (!input.ok) {
+      return invalidRequest(input.errors);
+    }
+
+    try {
+      const reactions = await setCommentReaction(params.id, locals.user.id, input.value.type, reacted);
+
+      if (!reactions) {
+        return json({ error: 'Comment not found' }, { status: 404 });
+      }
+
+      return json({ reactions });
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+      return json({ error: 'Failed to update reaction' }, { status: 500 });
+    }
+  };
+}
+
+export const POST = handleReaction(true);
+export const DELETE = handleReaction(false);
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { restoreComment } from '$lib/server/db';
+
+export const POST: RequestHandler = async ({ params, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const comment = await restoreComment(params.id, locals.user.id);
+
+    if (!comment) {
+      return json({ error: 'Comment not found in your trash' }, { status: 404 });
+    }
+
+    return json(comment);
+  } catch (error) {
+    console.error('Failed to restore comment:', error);
+    return json({ error: 'Failed to restore comment' }, { status: 500 });
+  }
+};
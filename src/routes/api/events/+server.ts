@@ -0,0 +1,23 @@
+import type { RequestHandler } from './$types';
+import { openEventStream } from '$lib/server/live';
+
+/**
+ * Server-Sent Events stream of photo and comment changes. Browsers resume with
+ * the Last-Event-ID header, or `?lastEventId=` when opening a fresh connection.
+ */
+export const GET: RequestHandler = async ({ request, url }) => {
+  const lastEventId =
+    request.headers.get('last-event-id') || url.searchParams.get('lastEventId');
+
+  const stream = openEventStream(lastEventId, request.signal).pipeThrough(new TextEncoderStream());
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop nginx and similar proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    }
+  });
+};
@@ -0,0 +1,40 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isModerator } from '$lib/server/auth';
+import { ModerationError, moderateContent } from '$lib/server/moderation';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { contentModeration } from '$lib/validation';
+
+/**
+ * Apply a moderation action to anyone's comment: `{ action, reason? }`
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isModerator(locals.user)) {
+    return json({ error: 'Moderator access required' }, { status: 403 });
+  }
+
+  const input = await readJson(request, contentModeration);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const { action, reason } = input.value;
+    const entry = await moderateContent(locals.user, 'comment', params.id, action, reason);
+    return json(entry);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to moderate comment:', error);
+    return json({ error: 'Failed to moderate comment' }, { status: 500 });
+  }
+};
@@ -0,0 +1,31 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isModerator } from '$lib/server/auth';
+import { getModerationLog } from '$lib/server/moderation';
+import { invalidRequest, readQuery } from '$lib/server/validation';
+import { moderationLogQuery } from '$lib/validation';
+
+/**
+ * The audit trail of moderation actions, newest first
+ */
+export const GET: RequestHandler = async ({ url, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isModerator(locals.user)) {
+    return json({ error: 'Moderator access required' }, { status: 403 });
+  }
+
+  const input = readQuery(url.searchParams, moderationLogQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    return json({ entries: await getModerationLog(input.value.limit) });
+  } catch (error) {
+    console.error('Failed to load moderation log:', error);
+    return json({ error: 'Failed to load moderation log' }, { status: 500 });
+  }
+};
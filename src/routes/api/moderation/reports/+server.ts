@@ -0,0 +1,31 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isModerator } from '$lib/server/auth';
+import { getReports } from '$lib/server/moderation';
+import { invalidRequest, readQuery } from '$lib/server/validation';
+import { reportsQuery } from '$lib/validation';
+
+/**
+ * The moderation queue: open reports by default, or `?status=actioned|dismissed`
+ */
+export const GET: RequestHandler = async ({ url, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isModerator(locals.user)) {
+    return json({ error: 'Moderator access required' }, { status: 403 });
+  }
+
+  const input = readQuery(url.searchParams, reportsQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    return json({ reports: await getReports(input.value.status) });
+  } catch (error) {
+    console.error('Failed to load reports:', error);
+    return json({ error: 'Failed to load reports' }, { status: 500 });
+  }
+};
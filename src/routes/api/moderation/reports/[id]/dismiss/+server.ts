@@ -0,0 +1,36 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isModerator } from '$lib/server/auth';
+import { ModerationError, dismissReport } from '$lib/server/moderation';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { reportDismissal } from '$lib/validation';
+
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+  if (!isModerator(locals.user)) {
+    return json({ error: 'Moderator access required' }, { status: 403 });
+  }
+
+  const input = await readJson(request, reportDismissal);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const entry = await dismissReport(locals.user, params.id, input.value.reason);
+    return json(entry);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to dismiss report:', error);
+    return json({ error: 'Failed to dismiss report' }, { status: 500 });
+  }
+};
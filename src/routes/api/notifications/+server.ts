@@ -0,0 +1,24 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getNotifications } from '$lib/server/notifications';
+import { invalidRequest, readQuery } from '$lib/server/validation';
+import { notificationsQuery } from '$lib/validation';
+
+export const GET: RequestHandler = async ({ url, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const input = readQuery(url.searchParams, notificationsQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    return json(await getNotifications(locals.user.id, input.value.limit));
+  } catch (error) {
+    console.error('Failed to load notifications:', error);
+    return json({ error: 'Failed to load notifications' }, { status: 500 });
+  }
+};
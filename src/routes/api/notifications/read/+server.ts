@@ -0,0 +1,32 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { markNotificationsRead } from '$lib/server/notifications';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { notificationsRead } from '$lib/validation';
+
+/**
+ * Mark notifications as read: the given `ids`, or all of them when omitted
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const input = await readJson(request, notificationsRead);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const unreadCount = await markNotificationsRead(locals.user.id, input.value.ids);
+    return json({ unreadCount });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to mark notifications as read:', error);
+    return json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+};
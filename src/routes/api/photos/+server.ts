@@ -1,56 +1,84 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getPhotos, createPhoto } from '$lib/server/db';
+import { photoListQuery, photoUpload, validate } from '$lib/validation';
+import { getPhotos, getFollowingPhotos, createPhoto, getStorageUsed, InvalidCursorError } from '$lib/server/db';
+import {
+  UploadError,
+  getUploadLimits,
+  inspectImageStream,
+  readMultipartUpload,
+  runUserUpload
+} from '$lib/server/uploads';
+import { invalidRequest, readQuery } from '$lib/server/validation';
 
-export const GET: RequestHandler = async ({ url }) => {
-  const offset = parseInt(url.searchParams.get('offset') || '0');
-  const limit = parseInt(url.searchParams.get('limit') || '10');
+export const GET: RequestHandler = async ({ url, locals }) => {
+  const input = readQuery(url.searchParams, photoListQuery);
 
-  const photos = await getPhotos(offset, limit);
-
-  return json({
-    photos,
-    hasMore: photos.length === limit
-  });
-};
-
-export const POST: RequestHandler = async ({ request, cookies }) => {
-  const userId = cookies.get('userId') || '1';
-  const username = cookies.get('username') || 'alice';
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
 
-  const formData = await request.formData();
-  const title = formData.get('title') as string;
-  const description = formData.get('description') as string;
-  const imageFile = formData.get('image') as File;
+  const { feed, ...query } = input.value;
 
-  if (!title || !imageFile) {
-    return json({ error: 'Title and image are required' }, { status: 400 });
+  if (feed === 'following' && !locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
   }
 
   try {
-    // Convert image file to data URL using Node.js Buffer
-    const imageDataUrl = await fileToDataURL(imageFile);
-    const photo = await createPhoto(userId, username, title, imageDataUrl, description);
-    return json(photo, { status: 201 });
+    const page = feed === 'following' && locals.user
+      ? await getFollowingPhotos(locals.user.id, query)
+      : await getPhotos(query, locals.user?.id);
+
+    return json(page);
   } catch (error) {
-    console.error('Failed to create photo:', error);
-    return json({ error: 'Failed to upload photo' }, { status: 500 });
+    if (error instanceof InvalidCursorError) {
+      return invalidRequest([{ field: 'cursor', message: 'Invalid cursor' }]);
+    }
+    throw error;
   }
 };
 
-async function fileToDataURL(file: File): Promise<string> {
-  // Get the file content as ArrayBuffer
-  const arrayBuffer = await file.arrayBuffer();
+export const POST: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
 
-  // Convert ArrayBuffer to Buffer (Node.js)
-  const buffer = Buffer.from(arrayBuffer);
+  const { id: userId, username } = locals.user;
 
-  // Convert to base64
-  const base64 = buffer.toString('base64');
+  try {
+    // A user's uploads run one at a time, so none can use quota another is counting on
+    return await runUserUpload(userId, async () => {
+      // Checked before reading the body so a user over quota isn't made to send the file
+      const limits = getUploadLimits(await getStorageUsed(userId));
+      const { fields, file } = await readMultipartUpload(request);
+      const input = validate(photoUpload, fields);
+      const hasImage = file?.fieldName === 'image';
+
+      if (!input.ok || !file || !hasImage) {
+        file?.stream.resume();
+        return invalidRequest([
+          ...(input.ok ? [] : input.errors),
+          ...(hasImage ? [] : [{ field: 'image', message: 'An image is required' }])
+        ]);
+      }
 
-  // Create data URL with proper MIME type
-  const mimeType = file.type || 'image/jpeg';
-  const dataUrl = `data:${mimeType};base64,${base64}`;
+      const { title, description, tags, keepLocation, visibility } = input.value;
 
-  return dataUrl;
-}
+      // Check the real type from the file's bytes rather than the client-supplied MIME type
+      const { contentType, stream } = await inspectImageStream(file.stream, limits.file);
+      const photo = await createPhoto(userId, username, title, stream, contentType, description, {
+        keepLocation,
+        tags,
+        visibility,
+        storageLimit: limits.storage ?? undefined
+      });
+      return json(photo, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return json({ error: error.message }, { status: error.status });
+    }
+    console.error('Failed to create photo:', error);
+    return json({ error: 'Failed to upload photo' }, { status: 500 });
+  }
+};
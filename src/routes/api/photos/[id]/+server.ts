@@ -1,23 +1,39 @@
-import { json } from '@sveltejs/kit';
+import { json, redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getPhotoById, updatePhoto, deletePhoto } from '$lib/server/db';
+import { getPhotoById, getCurrentId, updatePhoto, deletePhoto } from '$lib/server/db';
+import { isLegacyId } from '$lib/server/ids';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { photoUpdate } from '$lib/validation';
 
-export const GET: RequestHandler = async ({ params }) => {
-  const photo = await getPhotoById(params.id);
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const photo = await getPhotoById(params.id, locals.user?.id);
 
   if (!photo) {
+    // Photos had numeric IDs before they got UUIDs
+    const currentId = isLegacyId(params.id) ? await getCurrentId('photo', params.id) : undefined;
+    if (currentId) {
+      redirect(301, `/api/photos/${currentId}`);
+    }
     return json({ error: 'Photo not found' }, { status: 404 });
   }
 
   return json(photo);
 };
 
-export const PATCH: RequestHandler = async ({ params, request, cookies }) => {
-  const userId = cookies.get('userId') || '1';
-  const data = await request.json();
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userId = locals.user.id;
+  const input = await readJson(request, photoUpdate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
 
   try {
-    const photo = await updatePhoto(params.id, userId, data);
+    const photo = await updatePhoto(params.id, userId, input.value);
 
     if (!photo) {
       return json({ error: 'Photo not found or unauthorized' }, { status: 404 });
@@ -30,8 +46,12 @@ export const PATCH: RequestHandler = async ({ params, request, cookies }) => {
   }
 };
 
-export const DELETE: RequestHandler = async ({ params, cookies }) => {
-  const userId = cookies.get('userId') || '1';
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userId = locals.user.id;
 
   try {
     const success = await deletePhoto(params.id, userId);
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { restorePhoto } from '$lib/server/db';
+
+export const POST: RequestHandler = async ({ params, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const photo = await restorePhoto(params.id, locals.user.id);
+
+    if (!photo) {
+      return json({ error: 'Photo not found in your trash' }, { status: 404 });
+    }
+
+    return json(photo);
+  } catch (error) {
+    console.error('Failed to restore photo:', error);
+    return json({ error: 'Failed to restore photo' }, { status: 500 });
+  }
+};
@@ -0,0 +1,26 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { searchPhotos, InvalidCursorError } from '$lib/server/db';
+import { invalidRequest, readQuery } from '$lib/server/validation';
+import { searchQuery } from '$lib/validation';
+
+export const GET: RequestHandler = async ({ url, locals }) => {
+  const input = readQuery(url.searchParams, searchQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  const { q, cursor, limit } = input.value;
+
+  try {
+    const results = await searchPhotos(q, { cursor, limit }, locals.user?.id);
+
+    return json(results);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return invalidRequest([{ field: 'cursor', message: 'Invalid cursor' }]);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,63 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createShareLink, getShareLinks } from '$lib/server/sharing';
+import { ConflictError } from '$lib/server/storage';
+import { invalidRequest, readJson, readQuery } from '$lib/server/validation';
+import { shareLinkCreate, shareLinksQuery } from '$lib/validation';
+
+/**
+ * The active share links for one of your photos or albums:
+ * `?targetType=photo|album&targetId=`
+ */
+export const GET: RequestHandler = async ({ url, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const input = readQuery(url.searchParams, shareLinksQuery);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const { targetType, targetId } = input.value;
+    return json({ links: await getShareLinks(locals.user.id, targetType, targetId) });
+  } catch (error) {
+    console.error('Failed to load share links:', error);
+    return json({ error: 'Failed to load share links' }, { status: 500 });
+  }
+};
+
+/**
+ * Create a share link: `{ targetType, targetId, expiresInDays? }`
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const input = await readJson(request, shareLinkCreate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  const { targetType, targetId, expiresInDays } = input.value;
+
+  try {
+    const link = await createShareLink(locals.user.id, targetType, targetId, expiresInDays);
+
+    if (!link) {
+      return json({ error: `${targetType === 'photo' ? 'Photo' : 'Album'} not found or unauthorized` }, { status: 404 });
+    }
+
+    return json(link, { status: 201 });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to create share link:', error);
+    return json({ error: 'Failed to create share link' }, { status: 500 });
+  }
+};
@@ -0,0 +1,26 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { revokeShareLink } from '$lib/server/sharing';
+import { ConflictError } from '$lib/server/storage';
+
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const revoked = await revokeShareLink(locals.user.id, params.token);
+
+    if (!revoked) {
+      return json({ error: 'Share link not found or unauthorized' }, { status: 404 });
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return json({ error: 'The data was changed by someone else, please try again' }, { status: 409 });
+    }
+    console.error('Failed to revoke share link:', error);
+    return json({ error: 'Failed to revoke share link' }, { status: 500 });
+  }
+};
@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getTrash } from '$lib/server/db';
+
+export const GET: RequestHandler = async ({ locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    return json(await getTrash(locals.user.id));
+  } catch (error) {
+    console.error('Failed to load trash:', error);
+    return json({ error: 'Failed to load trash' }, { status: 500 });
+  }
+};
@@ -0,0 +1,44 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserProfile, updateUserProfile } from '$lib/server/db';
+import { invalidRequest, readJson } from '$lib/server/validation';
+import { profileUpdate } from '$lib/validation';
+
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const profile = await getUserProfile(params.id, locals.user?.id);
+
+  if (!profile) {
+    return json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return json(profile);
+};
+
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+  if (!locals.user) {
+    return json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (locals.user.id !== params.id) {
+    return json({ error: 'You can only edit your own profile' }, { status: 403 });
+  }
+
+  const input = await readJson(request, profileUpdate);
+
+  if (!input.ok) {
+    return invalidRequest(input.errors);
+  }
+
+  try {
+    const user = await updateUserProfile(params.id, input.value);
+
+    if (!user) {
+      return json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return json(user);
+  } catch (error) {
+    console.error('Failed to update profile:', error);
+    return json({ error: 'Failed to update profile' }, { status: 500 });
+  }
+};
@@ -0,0 +1,34 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getUserProfile, setFollowing } from '$lib/server/db';
+
+/**
+ * Follow (POST) or unfollow (DELETE) a user. Responds with their updated profile.
+ */
+function handleFollow(follow: boolean): RequestHandler {
+  return async ({ params, locals }) => {
+    if (!locals.user) {
+      return json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    if (locals.user.id === params.id) {
+      return json({ error: "You can't follow yourself" }, { status: 400 });
+    }
+
+    try {
+      const found = await setFollowing(locals.user.id, params.id, follow);
+
+      if (!found) {
+        return json({ error: 'User not found' }, { status: 404 });
+      }
+
+      return json(await getUserProfile(params.id, locals.user.id));
+    } catch (error) {
+      console.error(`Failed to ${follow ? 'follow' : 'unfollow'} user:`, error);
+      return json({ error: `Failed to ${follow ? 'follow' : 'unfollow'} user` }, { status: 500 });
+    }
+  };
+}
+
+export const POST = handleFollow(true);
+export const DELETE = handleFollow(false);
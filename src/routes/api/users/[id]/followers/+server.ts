@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getFollowers } from '$lib/server/db';
+
+export const GET: RequestHandler = async ({ params }) => {
+  const followers = await getFollowers(params.id);
+
+  if (!followers) {
+    return json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return json(followers);
+};
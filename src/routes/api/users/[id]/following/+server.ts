@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getFollowing } from '$lib/server/db';
+
+export const GET: RequestHandler = async ({ params }) => {
+  const following = await getFollowing(params.id);
+
+  if (!following) {
+    return json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return json(following);
+};
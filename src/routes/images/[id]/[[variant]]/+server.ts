@@ -0,0 +1,73 @@
+import { error, redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getCurrentId, getPhotoImage } from '$lib/server/db';
+import { isModerator } from '$lib/server/auth';
+import { isLegacyId } from '$lib/server/ids';
+import { shareLinkGrantsPhoto } from '$lib/server/sharing';
+import { BlobNotFoundError, getStorage } from '$lib/server/storage';
+
+// Shared caches may serve a public image this long (in seconds) before checking it is
+// still public; it can be trashed, hidden or made private at any time
+const PUBLIC_MAX_AGE = 300;
+
+/**
+ * Whether an If-None-Match header lists the ETag
+ */
+function matchesETag(header: string | null, etag: string): boolean {
+  return !!header && header.split(',').some((value) => value.trim() === etag || value.trim() === '*');
+}
+
+/**
+ * Serves a photo's image, or one of its variants (e.g. /images/<photo id>/medium.webp).
+ * Storage is never exposed to browsers, so no storage credentials reach them.
+ * URLs with a photo's old numeric ID redirect to its current one.
+ */
+export const GET: RequestHandler = async ({ params, url, request, locals }) => {
+  // Set on image URLs handed out through a share link (see /s/[token])
+  const shareToken = url.searchParams.get('share');
+
+  const image = await getPhotoImage(params.id, params.variant, {
+    viewerId: locals.user?.id,
+    canModerate: isModerator(locals.user),
+    shared: shareToken ? await shareLinkGrantsPhoto(shareToken, params.id) : false
+  });
+  if (!image) {
+    const currentId = isLegacyId(params.id) ? await getCurrentId('photo', params.id) : undefined;
+    if (currentId) {
+      const variant = params.variant ? `/${params.variant}` : '';
+      redirect(301, `/images/${currentId}${variant}${url.search}`);
+    }
+    error(404, 'Not found');
+  }
+
+  // Blob names are unique to an upload, so its content never changes. Caches revalidate
+  // with the ETag, so access is checked again without sending the image.
+  const headers = {
+    ETag: `"${image.blobName}"`,
+    'Cache-Control': image.isPublic
+      ? `public, max-age=${PUBLIC_MAX_AGE}, must-revalidate`
+      : 'private, no-cache'
+  };
+  if (matchesETag(request.headers.get('if-none-match'), headers.ETag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  try {
+    const storage = await getStorage();
+    const { stream, contentType, size } = await storage.getBlobStream('photo', image.blobName);
+
+    return new Response(stream, {
+      headers: {
+        ...headers,
+        'Content-Type': contentType,
+        ...(size !== undefined && { 'Content-Length': String(size) })
+      }
+    });
+  } catch (err) {
+    if (err instanceof BlobNotFoundError) {
+      error(404, 'Not found');
+    }
+    console.error('Failed to read image:', err);
+    error(500, 'Failed to read image');
+  }
+};
@@ -0,0 +1,23 @@
+import { error, redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import type { ReportStatus } from '$lib/types';
+import { isModerator } from '$lib/server/auth';
+import { getModerationLog, getReports } from '$lib/server/moderation';
+import { REPORT_STATUSES } from '$lib/utils';
+
+const LOG_SIZE = 50;
+
+export const load: PageServerLoad = async ({ url, locals }) => {
+  if (!locals.user) {
+    redirect(303, '/');
+  }
+  if (!isModerator(locals.user)) {
+    error(403, 'Moderator access required');
+  }
+
+  const requested = url.searchParams.get('status') as ReportStatus;
+  const status = REPORT_STATUSES.includes(requested) ? requested : 'open';
+
+  const [reports, log] = await Promise.all([getReports(status), getModerationLog(LOG_SIZE)]);
+  return { status, reports, log };
+};
@@ -0,0 +1,19 @@
+import { error, redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getCurrentId, getPhotoById } from '$lib/server/db';
+import { isLegacyId } from '$lib/server/ids';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+  const photo = await getPhotoById(params.id, locals.user?.id);
+
+  if (!photo) {
+    // Photos had numeric IDs before they got UUIDs
+    const currentId = isLegacyId(params.id) ? await getCurrentId('photo', params.id) : undefined;
+    if (currentId) {
+      redirect(301, `/photos/${currentId}`);
+    }
+    error(404, 'Photo not found');
+  }
+
+  return { photo };
+};
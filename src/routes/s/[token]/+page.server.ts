@@ -0,0 +1,13 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getSharedContent } from '$lib/server/sharing';
+
+export const load: PageServerLoad = async ({ params }) => {
+  const shared = await getSharedContent(params.token);
+
+  if (!shared) {
+    error(404, 'This link has expired or been revoked');
+  }
+
+  return { photo: shared.photo, album: shared.album };
+};
@@ -0,0 +1,11 @@
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getTrash } from '$lib/server/db';
+
+export const load: PageServerLoad = async ({ locals }) => {
+  if (!locals.user) {
+    redirect(303, '/');
+  }
+
+  return { trash: await getTrash(locals.user.id) };
+};
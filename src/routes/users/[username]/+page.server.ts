@@ -0,0 +1,17 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getAlbums, getUserByUsername, getUserProfile } from '$lib/server/db';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+  const user = await getUserByUsername(params.username);
+  const profile = user ? await getUserProfile(user.id, locals.user?.id) : undefined;
+
+  if (!profile) {
+    error(404, 'User not found');
+  }
+
+  return {
+    profile,
+    albums: await getAlbums(profile.id, locals.user?.id)
+  };
+};